@@ -1,27 +1,41 @@
 import { BrowserRouter as Router, Routes, Route } from "react-router";
 import { AuthProvider } from "./context/AuthContext";
+import { SettingsProvider } from "./context/SettingsContext";
 import { HomePage } from "./pages/HomePage";
 import { LoginPage } from "./pages/LoginPage";
 import { SettingsPage } from "./pages/SettingsPage";
+import { StorageMaintenancePage } from "./pages/StorageMaintenancePage";
 import { HelpPage } from "./pages/HelpPage";
 import { LandingPage } from "./pages/LandingPage";
+import { DigestsPage } from "./pages/DigestsPage";
+import { DigestPage } from "./pages/DigestPage";
+import { TrashPage } from "./pages/TrashPage";
 
 /**
- * Main application component with routing and authentication context
+ * Main application component with routing, authentication and settings context
  */
 
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <Routes>
-          <Route path="/login" element={<LoginPage />} />
-          <Route path="/app" element={<HomePage />} />
-          <Route path="/settings" element={<SettingsPage />} />
-          <Route path="/help" element={<HelpPage />} />
-          <Route path="/" element={<LandingPage />} />
-        </Routes>
-      </Router>
+      <SettingsProvider>
+        <Router>
+          <Routes>
+            <Route path="/login" element={<LoginPage />} />
+            <Route path="/app" element={<HomePage />} />
+            <Route path="/digests" element={<DigestsPage />} />
+            <Route path="/digests/:digestId" element={<DigestPage />} />
+            <Route path="/trash" element={<TrashPage />} />
+            <Route path="/settings" element={<SettingsPage />} />
+            <Route
+              path="/settings/storage"
+              element={<StorageMaintenancePage />}
+            />
+            <Route path="/help" element={<HelpPage />} />
+            <Route path="/" element={<LandingPage />} />
+          </Routes>
+        </Router>
+      </SettingsProvider>
     </AuthProvider>
   );
 }
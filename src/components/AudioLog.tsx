@@ -10,10 +10,36 @@ import {
   ChevronUp,
   MoreVertical,
   RefreshCw,
+  AlertCircle,
+  Pencil,
+  History,
+  Check,
+  X,
+  Download,
 } from "lucide-react";
 import { supabase } from "../services/supabaseClient";
+import { ApiService } from "../services/api";
 import Slider from "./ui/Slider";
-import type { Entry } from "../types";
+import Waveform from "./Waveform";
+import RevisionHistoryModal from "./RevisionHistoryModal";
+import TagEditor from "./TagEditor";
+import InsightsSection from "./InsightsSection";
+import { ENTRY_EXPORT_FORMATS, exportEntry } from "../services/export";
+import type { EntryExportFormat } from "../services/export";
+import { canPlayAudioType, normalizeAudioType } from "../utils/audioFiles";
+import { computeWaveformPeaks } from "../utils/waveform";
+import type {
+  Entry,
+  EntryRevision,
+  EntryTranscript,
+  Tag,
+  TranscriptSegment,
+} from "../types";
+
+interface SpeakerTurn {
+  speaker: string;
+  segments: { segment: TranscriptSegment; index: number }[];
+}
 
 /**
  * Unified audio log component that handles both display and playback
@@ -23,18 +49,26 @@ interface AudioLogProps {
   entry: Entry;
   isDeleting: boolean;
   transcribingId: string | null;
+  searchSnippet?: string;
+  allTags: Tag[];
   onDelete: (entryId: string) => void;
   onTranscriptUpdate: (entryId: string) => void;
   onGenerateTranscript: (entryId: string) => void;
+  onEntryUpdated: (entryId: string, update: Partial<Entry>) => void;
+  onTagCreated: (tag: Tag) => void;
 }
 
 export const AudioLog: React.FC<AudioLogProps> = ({
   entry,
   isDeleting,
   transcribingId,
+  searchSnippet,
+  allTags,
   onDelete,
   onTranscriptUpdate,
   onGenerateTranscript,
+  onEntryUpdated,
+  onTagCreated,
 }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
@@ -45,6 +79,23 @@ export const AudioLog: React.FC<AudioLogProps> = ({
     null
   );
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const [loadedTranscript, setLoadedTranscript] =
+    useState<EntryTranscript | null>(null);
+  const [isLoadingTranscript, setIsLoadingTranscript] = useState(false);
+  const [isEditingTitle, setIsEditingTitle] = useState(false);
+  const [titleDraft, setTitleDraft] = useState("");
+  const [isEditingTranscript, setIsEditingTranscript] = useState(false);
+  const [transcriptDraft, setTranscriptDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [speakerDraft, setSpeakerDraft] = useState("");
+  const [isTagPickerOpen, setIsTagPickerOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] =
+    useState<EntryExportFormat | null>(null);
+  const [exportFailed, setExportFailed] = useState(false);
 
   const formatDate = (dateString: string): string => {
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -86,12 +137,53 @@ export const AudioLog: React.FC<AudioLogProps> = ({
     };
   };
 
+  // Search snippets wrap matches in [[ and ]]
+  const renderHighlightedSnippet = (snippet: string) =>
+    snippet.split(/\[\[(.*?)\]\]/g).map((part, index) =>
+      index % 2 === 1 ? (
+        <mark
+          key={index}
+          className="bg-blue-500/30 text-blue-100 rounded px-0.5"
+        >
+          {part}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    );
+
+  // Entries saved before waveforms were computed get one on first playback
+  const backfillWaveform = async (audioPath: string) => {
+    const audio = await ApiService.downloadAudio(audioPath);
+    const peaks = audio && (await computeWaveformPeaks(audio));
+    if (peaks && (await ApiService.updateWaveformPeaks(entry.id, peaks))) {
+      onEntryUpdated(entry.id, { waveform_peaks: peaks });
+    }
+  };
+
   const loadAudio = async () => {
     if (audioElement) return audioElement;
 
+    const audioPath = entry.processed_audio_url || entry.original_audio_url;
+    // A search result without a type is not assumed playable: the stored
+    // file's extension still tells the format
+    const audioType =
+      entry.audio_mime_type ??
+      (searchSnippet !== undefined && audioPath
+        ? normalizeAudioType("", audioPath)
+        : null);
+
+    // Older browsers play only some formats, e.g. no WebM on older iOS
+    if (!canPlayAudioType(audioType)) {
+      setAudioError(
+        "This browser can't play this recording's format. Try another browser, or export the entry to download the audio."
+      );
+      return null;
+    }
+
+    setAudioError(null);
     setIsLoadingAudio(true);
     try {
-      const audioPath = entry.processed_audio_url || entry.original_audio_url;
       if (!audioPath) {
         throw new Error("No audio path available");
       }
@@ -128,10 +220,12 @@ export const AudioLog: React.FC<AudioLogProps> = ({
       audio.addEventListener("error", () => {
         console.error("Audio loading error");
         setIsPlaying(false);
+        setAudioError("The recording could not be played.");
       });
 
       setAudioElement(audio);
       setIsLoadingAudio(false);
+      if (!entry.waveform_peaks) backfillWaveform(audioPath);
       return audio;
     } catch (error) {
       console.error("Error loading audio:", error);
@@ -143,6 +237,11 @@ export const AudioLog: React.FC<AudioLogProps> = ({
   const togglePlayPause = async () => {
     if (isLoadingAudio) return;
 
+    // Word timings drive the synchronized transcript during playback
+    if (hasTranscript && !isTranscriptLoaded) {
+      loadTranscript();
+    }
+
     let audio = audioElement;
     if (!audio) {
       audio = await loadAudio();
@@ -176,15 +275,286 @@ export const AudioLog: React.FC<AudioLogProps> = ({
     }
   };
 
+  // Clicking a word jumps playback to it, loading the audio first if needed
+  const seekToSegment = async (segment: TranscriptSegment) => {
+    const audio = audioElement || (await loadAudio());
+    if (!audio || !isFinite(segment.start)) return;
+
+    audio.currentTime = segment.start;
+    setCurrentTime(segment.start);
+  };
+
   const toggleMenu = (event: React.MouseEvent) => {
     event.stopPropagation();
     setIsMenuOpen(!isMenuOpen);
+    setIsExportOpen(false);
+    setExportFailed(false);
   };
 
-  const transcriptData = entry.transcription
-    ? truncateText(entry.transcription)
+  const exportAs = async (format: EntryExportFormat) => {
+    setExportingFormat(format);
+    setExportFailed(false);
+    const exported = await exportEntry(entry, format);
+    setExportingFormat(null);
+
+    if (exported) {
+      setIsMenuOpen(false);
+    } else {
+      setExportFailed(true);
+    }
+  };
+
+  const transcriptionStatus =
+    transcribingId === entry.id
+      ? "processing"
+      : entry.transcription_status || "idle";
+
+  // The list only carries a preview; the full transcript and its word
+  // timings are fetched on expand or playback
+  const isTranscriptLoaded = !!entry.transcription || !!loadedTranscript;
+  const transcriptText =
+    entry.transcription ||
+    loadedTranscript?.transcription ||
+    entry.transcription_preview ||
+    null;
+  const segments = entry.transcription
+    ? entry.transcript_segments
+    : loadedTranscript?.transcript_segments;
+  const hasTranscript = !!transcriptText;
+  const isPreviewOnly =
+    !isTranscriptLoaded &&
+    (entry.transcription_length ?? 0) >
+      (entry.transcription_preview?.length ?? 0);
+
+  const transcriptData = transcriptText ? truncateText(transcriptText) : null;
+
+  // Highlight the word being spoken once playback has started
+  const activeSegmentIndex =
+    segments && (isPlaying || currentTime > 0)
+      ? segments.findIndex(
+          (segment) => currentTime >= segment.start && currentTime < segment.end
+        )
+      : -1;
+
+  // Diarized transcripts render as a conversation, one block per speaker turn
+  const speakerTurns = segments?.some((segment) => segment.speaker)
+    ? segments.reduce<SpeakerTurn[]>((turns, segment, index) => {
+        const speaker = segment.speaker || "unknown";
+        const lastTurn = turns[turns.length - 1];
+        if (lastTurn && lastTurn.speaker === speaker) {
+          lastTurn.segments.push({ segment, index });
+        } else {
+          turns.push({ speaker, segments: [{ segment, index }] });
+        }
+        return turns;
+      }, [])
     : null;
 
+  // "Speaker 1", "Speaker 2", ... in order of first appearance unless renamed
+  const speakerOrder = Array.from(
+    new Set(speakerTurns?.map((turn) => turn.speaker))
+  );
+  const speakerName = (speaker: string): string =>
+    entry.speaker_names?.[speaker] ||
+    `Speaker ${speakerOrder.indexOf(speaker) + 1}`;
+
+  const startEditingSpeaker = (speaker: string) => {
+    setSpeakerDraft(speakerName(speaker));
+    setEditingSpeaker(speaker);
+  };
+
+  const saveSpeakerName = async () => {
+    if (!editingSpeaker) return;
+
+    const name = speakerDraft.trim();
+    const speakerNames = { ...entry.speaker_names };
+    if (name) {
+      speakerNames[editingSpeaker] = name;
+    } else {
+      delete speakerNames[editingSpeaker];
+    }
+
+    setIsSaving(true);
+    const saved = await ApiService.updateSpeakerNames(entry.id, speakerNames);
+    setIsSaving(false);
+    if (saved) {
+      onEntryUpdated(entry.id, { speaker_names: speakerNames });
+      setEditingSpeaker(null);
+    }
+  };
+
+  const handleSpeakerKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter") {
+      saveSpeakerName();
+    } else if (event.key === "Escape") {
+      setEditingSpeaker(null);
+    }
+  };
+
+  const renderSegments = (
+    timedSegments: { segment: TranscriptSegment; index: number }[]
+  ) =>
+    timedSegments.map(({ segment, index }, position) => (
+      <React.Fragment key={index}>
+        {position > 0 && " "}
+        <span
+          onClick={() => seekToSegment(segment)}
+          className={`cursor-pointer rounded transition-colors duration-150 ${
+            index === activeSegmentIndex
+              ? "bg-blue-500/30 text-blue-100"
+              : "hover:text-white hover:bg-slate-700/50"
+          }`}
+        >
+          {segment.text}
+        </span>
+      </React.Fragment>
+    ));
+
+  const loadTranscript = async (): Promise<EntryTranscript | null> => {
+    if (isTranscriptLoaded) {
+      return {
+        transcription: transcriptText || undefined,
+        transcript_segments: segments,
+      };
+    }
+
+    setIsLoadingTranscript(true);
+    const transcript = await ApiService.fetchEntryTranscript(entry.id);
+    setIsLoadingTranscript(false);
+    if (transcript) {
+      setLoadedTranscript(transcript);
+    }
+    return transcript;
+  };
+
+  const toggleExpanded = async () => {
+    if (!isExpanded && hasTranscript) {
+      await loadTranscript();
+    }
+    setIsExpanded(!isExpanded);
+  };
+
+  const startEditingTitle = () => {
+    setTitleDraft(entry.title);
+    setIsEditingTitle(true);
+  };
+
+  const saveTitle = async () => {
+    const title = titleDraft.trim();
+    if (!title || title === entry.title) {
+      setIsEditingTitle(false);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await ApiService.updateEntryTitle(entry.id, title);
+    setIsSaving(false);
+    if (saved) {
+      onEntryUpdated(entry.id, { title, title_source: "manual" });
+      setIsEditingTitle(false);
+    }
+  };
+
+  const handleTitleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter") {
+      saveTitle();
+    } else if (event.key === "Escape") {
+      setIsEditingTitle(false);
+    }
+  };
+
+  // Editing needs the whole transcript, not the list preview
+  const startEditingTranscript = async () => {
+    const transcript = await loadTranscript();
+    if (!transcript) return;
+
+    setTranscriptDraft(transcript.transcription || "");
+    setIsEditingTranscript(true);
+  };
+
+  const applyTranscription = (
+    transcription: string,
+    update: Partial<Entry>
+  ) => {
+    // Word timings belong to the ASR output and no longer match, unless the
+    // update brings the timings of a restored ASR transcript
+    const transcript_segments = update.transcript_segments ?? null;
+    setLoadedTranscript({ transcription, transcript_segments });
+    onEntryUpdated(entry.id, {
+      transcription,
+      transcript_segments,
+      transcription_preview: transcription.slice(0, 400),
+      transcription_length: transcription.length,
+      transcription_status: "completed",
+      transcription_error: null,
+      ...update,
+    });
+  };
+
+  const saveTranscript = async () => {
+    const transcription = transcriptDraft.trim();
+    if (transcription === (transcriptText || "").trim()) {
+      setIsEditingTranscript(false);
+      return;
+    }
+
+    setIsSaving(true);
+    const saved = await ApiService.updateEntryTranscription(
+      entry.id,
+      transcription
+    );
+    setIsSaving(false);
+    if (saved) {
+      applyTranscription(transcription, { transcription_source: "manual" });
+      setIsEditingTranscript(false);
+    }
+  };
+
+  const restoreRevision = async (revision: EntryRevision) => {
+    const restored = await ApiService.restoreEntryRevision(revision);
+    if (!restored) return false;
+
+    const content = revision.content || "";
+    if (revision.field === "title") {
+      onEntryUpdated(entry.id, { title: content, title_source: "manual" });
+    } else {
+      applyTranscription(
+        content,
+        revision.source === "asr"
+          ? {
+              transcription_source: "asr",
+              transcript_segments: revision.transcript_segments ?? null,
+            }
+          : { transcription_source: "manual" }
+      );
+    }
+    return true;
+  };
+
+  const entryTags = entry.tags || [];
+
+  const addTag = async (tag: Tag) => {
+    if (await ApiService.addTagToEntry(entry, tag.id)) {
+      onEntryUpdated(entry.id, {
+        tags: [...entryTags, tag].sort((a, b) => a.name.localeCompare(b.name)),
+      });
+    }
+  };
+
+  const removeTag = async (tag: Tag) => {
+    if (await ApiService.removeTagFromEntry(entry.id, tag.id)) {
+      onEntryUpdated(entry.id, {
+        tags: entryTags.filter((entryTag) => entryTag.id !== tag.id),
+      });
+    }
+  };
+
+  const createTag = async (name: string) => {
+    const tag = await ApiService.createTag(entry.user_id, name);
+    if (tag) onTagCreated(tag);
+    return tag;
+  };
+
   // Use fallback duration if audio duration not available
   const displayDuration = duration > 0 ? duration : entry.duration || 0;
 
@@ -194,7 +564,7 @@ export const AudioLog: React.FC<AudioLogProps> = ({
         isDeleting
           ? "opacity-0 scale-95 transform bg-red-500/10 border-red-500/20"
           : "opacity-100 scale-100"
-      } ${isMenuOpen ? "z-20" : "z-0"}`}
+      } ${isMenuOpen || isTagPickerOpen ? "z-20" : "z-0"}`}
     >
       <div
         className={`space-y-4 transition-all duration-300 ${
@@ -205,9 +575,48 @@ export const AudioLog: React.FC<AudioLogProps> = ({
         <div className="flex items-start justify-between gap-3">
           <div className="flex items-start gap-3 flex-1 min-w-0">
             <div className="flex-1 min-w-0">
-              <h3 className="text-white font-medium mb-2 truncate">
-                {entry.title}
-              </h3>
+              {isEditingTitle ? (
+                <div className="flex items-center gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={titleDraft}
+                    onChange={(e) => setTitleDraft(e.target.value)}
+                    onKeyDown={handleTitleKeyDown}
+                    disabled={isSaving}
+                    autoFocus
+                    className="flex-1 min-w-0 px-3 py-1.5 bg-slate-900/50 border border-slate-600/50 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    onClick={saveTitle}
+                    disabled={isSaving}
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-blue-400 hover:text-blue-300 hover:bg-slate-700/50 transition-colors duration-200"
+                  >
+                    {isSaving ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Check className="w-4 h-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => setIsEditingTitle(false)}
+                    disabled={isSaving}
+                    className="w-8 h-8 rounded-full flex items-center justify-center text-slate-400 hover:text-slate-300 hover:bg-slate-700/50 transition-colors duration-200"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={startEditingTitle}
+                  disabled={isDeleting}
+                  className="group flex items-center gap-2 max-w-full mb-2 text-left"
+                >
+                  <h3 className="text-white font-medium truncate">
+                    {entry.title}
+                  </h3>
+                  <Pencil className="w-3.5 h-3.5 text-slate-500 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex-shrink-0" />
+                </button>
+              )}
               <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-400">
                 <div className="flex items-center space-x-1">
                   <Calendar className="w-4 h-4" />
@@ -218,6 +627,17 @@ export const AudioLog: React.FC<AudioLogProps> = ({
                   <span>{formatDuration(entry.duration)}</span>
                 </div>
               </div>
+              <div className="mt-3">
+                <TagEditor
+                  tags={entryTags}
+                  allTags={allTags}
+                  disabled={isDeleting}
+                  onAdd={addTag}
+                  onRemove={removeTag}
+                  onCreate={createTag}
+                  onPickerOpenChange={setIsTagPickerOpen}
+                />
+              </div>
             </div>
           </div>
 
@@ -240,30 +660,28 @@ export const AudioLog: React.FC<AudioLogProps> = ({
                 <div className="py-2">
                   <button
                     onClick={() => {
-                      if (entry.transcription) {
+                      if (hasTranscript) {
                         onTranscriptUpdate(entry.id);
                       } else {
                         onGenerateTranscript(entry.id);
                       }
                       setIsMenuOpen(false);
                     }}
-                    disabled={transcribingId === entry.id}
+                    disabled={transcriptionStatus === "processing"}
                     className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:text-white hover:bg-slate-700/50 transition-colors duration-200 flex items-center space-x-2"
                   >
-                    {transcribingId === entry.id ? (
+                    {transcriptionStatus === "processing" ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin" />
                         <span>
-                          {entry.transcription
-                            ? "Updating..."
-                            : "Generating..."}
+                          {hasTranscript ? "Updating..." : "Generating..."}
                         </span>
                       </>
                     ) : (
                       <>
                         <RefreshCw className="w-4 h-4" />
                         <span>
-                          {entry.transcription
+                          {hasTranscript
                             ? "Update Transcript"
                             : "Generate Transcript"}
                         </span>
@@ -271,6 +689,67 @@ export const AudioLog: React.FC<AudioLogProps> = ({
                     )}
                   </button>
 
+                  {hasTranscript && (
+                    <button
+                      onClick={() => {
+                        startEditingTranscript();
+                        setIsMenuOpen(false);
+                      }}
+                      disabled={isEditingTranscript}
+                      className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:text-white hover:bg-slate-700/50 transition-colors duration-200 flex items-center space-x-2"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      <span>Edit Transcript</span>
+                    </button>
+                  )}
+
+                  <button
+                    onClick={() => {
+                      setIsHistoryOpen(true);
+                      setIsMenuOpen(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:text-white hover:bg-slate-700/50 transition-colors duration-200 flex items-center space-x-2"
+                  >
+                    <History className="w-4 h-4" />
+                    <span>Version History</span>
+                  </button>
+
+                  <button
+                    onClick={() => setIsExportOpen(!isExportOpen)}
+                    className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:text-white hover:bg-slate-700/50 transition-colors duration-200 flex items-center space-x-2"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span className="flex-1">Export</span>
+                    {isExportOpen ? (
+                      <ChevronUp className="w-3 h-3" />
+                    ) : (
+                      <ChevronDown className="w-3 h-3" />
+                    )}
+                  </button>
+
+                  {isExportOpen && (
+                    <div className="pb-1">
+                      {ENTRY_EXPORT_FORMATS.map((format) => (
+                        <button
+                          key={format.value}
+                          onClick={() => exportAs(format.value)}
+                          disabled={!!exportingFormat}
+                          className="w-full pl-10 pr-4 py-1.5 text-left text-sm text-slate-400 hover:text-white hover:bg-slate-700/50 disabled:opacity-50 transition-colors duration-200 flex items-center space-x-2"
+                        >
+                          <span className="flex-1">{format.label}</span>
+                          {exportingFormat === format.value && (
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                          )}
+                        </button>
+                      ))}
+                      {exportFailed && (
+                        <p className="pl-10 pr-4 py-1 text-xs text-red-400">
+                          Export failed. Please try again.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <button
                     onClick={() => {
                       onDelete(entry.id);
@@ -280,7 +759,7 @@ export const AudioLog: React.FC<AudioLogProps> = ({
                     className="w-full px-4 py-2 text-left text-sm text-red-400 hover:text-red-300 hover:bg-slate-700/50 transition-colors duration-200 flex items-center space-x-2"
                   >
                     <Trash2 className="w-4 h-4" />
-                    <span>Delete Entry</span>
+                    <span>Move to Trash</span>
                   </button>
                 </div>
               </div>
@@ -311,38 +790,176 @@ export const AudioLog: React.FC<AudioLogProps> = ({
             </button>
 
             <div className="flex-1 space-y-2">
-              <Slider
-                value={[currentTime]}
-                max={displayDuration || 100}
-                min={0}
-                step={1}
-                onValueChange={handleSeek}
-                className="w-full"
-                disabled={
-                  !displayDuration || displayDuration === 0 || isLoadingAudio
-                }
-              />
+              {entry.waveform_peaks?.length ? (
+                <Waveform
+                  peaks={entry.waveform_peaks}
+                  progress={displayDuration ? currentTime / displayDuration : 0}
+                  onSeek={(fraction) =>
+                    handleSeek([fraction * displayDuration])
+                  }
+                  disabled={!audioElement || !displayDuration}
+                />
+              ) : (
+                <Slider
+                  value={[currentTime]}
+                  max={displayDuration || 100}
+                  min={0}
+                  step={1}
+                  onValueChange={handleSeek}
+                  className="w-full"
+                  disabled={
+                    !displayDuration || displayDuration === 0 || isLoadingAudio
+                  }
+                />
+              )}
               <div className="flex justify-between text-xs text-slate-400">
                 <span>{formatTime(currentTime)}</span>
                 <span>{formatTime(displayDuration)}</span>
               </div>
             </div>
           </div>
+
+          {audioError && <p className="text-xs text-red-300">{audioError}</p>}
         </div>
 
-        {/* Transcript section */}
-        {transcriptData && (
-          <div className="bg-slate-900/50 rounded-lg p-3 space-y-2">
+        {/* Transcription status */}
+        {transcriptionStatus === "processing" && (
+          <div className="bg-slate-900/50 rounded-lg p-3 flex items-center space-x-2 text-slate-400 text-sm">
+            <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+            <span>Transcribing...</span>
+          </div>
+        )}
+
+        {transcriptionStatus === "failed" && (
+          <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 flex items-start justify-between gap-3">
+            <div className="flex items-start space-x-2 min-w-0">
+              <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+              <div className="min-w-0">
+                <p className="text-red-400 text-xs font-medium mb-1">
+                  Transcription failed
+                </p>
+                {entry.transcription_error && (
+                  <p className="text-red-300 text-xs break-words">
+                    {entry.transcription_error}
+                  </p>
+                )}
+              </div>
+            </div>
+            <button
+              onClick={() => onGenerateTranscript(entry.id)}
+              disabled={isDeleting}
+              className="flex items-center space-x-1 px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-300 hover:text-red-200 rounded-lg text-xs font-medium transition-colors duration-200 flex-shrink-0"
+            >
+              <RefreshCw className="w-3 h-3" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        {/* Search match */}
+        {searchSnippet && !isExpanded && (
+          <div className="bg-blue-500/5 border border-blue-500/20 rounded-lg p-3">
             <p className="text-slate-300 text-sm leading-relaxed">
-              {isExpanded ? entry.transcription : transcriptData.truncated}
+              {renderHighlightedSnippet(searchSnippet)}
             </p>
+          </div>
+        )}
+
+        {/* Transcript editor */}
+        {isEditingTranscript && (
+          <div className="bg-slate-900/50 rounded-lg p-3 space-y-3">
+            <textarea
+              value={transcriptDraft}
+              onChange={(e) => setTranscriptDraft(e.target.value)}
+              disabled={isSaving}
+              rows={8}
+              autoFocus
+              className="w-full px-3 py-2 bg-slate-800/50 border border-slate-600/50 rounded-lg text-slate-200 text-sm leading-relaxed focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setIsEditingTranscript(false)}
+                disabled={isSaving}
+                className="py-1.5 px-3 bg-slate-600 hover:bg-slate-700 text-white rounded-lg transition-all duration-200 text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveTranscript}
+                disabled={isSaving}
+                className="flex items-center space-x-1 py-1.5 px-3 bg-blue-500 hover:bg-blue-600 disabled:bg-blue-500/50 text-white rounded-lg transition-all duration-200 text-sm font-medium"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                <span>Save</span>
+              </button>
+            </div>
+          </div>
+        )}
 
-            {transcriptData.needsExpansion && (
+        {/* Transcript section */}
+        {transcriptData && !isEditingTranscript && (
+          <div className="bg-slate-900/50 rounded-lg p-3 space-y-2">
+            {/* While searching, the snippet above stands in for the collapsed transcript */}
+            {(isExpanded || !searchSnippet) &&
+              (segments?.length &&
+              (isExpanded || !transcriptData.needsExpansion) ? (
+                speakerTurns ? (
+                  <div className="space-y-3">
+                    {speakerTurns.map((turn, turnIndex) => (
+                      <div key={turnIndex}>
+                        {editingSpeaker === turn.speaker ? (
+                          <input
+                            type="text"
+                            value={speakerDraft}
+                            onChange={(e) => setSpeakerDraft(e.target.value)}
+                            onKeyDown={handleSpeakerKeyDown}
+                            onBlur={() => setEditingSpeaker(null)}
+                            disabled={isSaving}
+                            autoFocus
+                            className="mb-1 px-2 py-0.5 bg-slate-800/50 border border-slate-600/50 rounded text-blue-300 text-xs font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        ) : (
+                          <button
+                            onClick={() => startEditingSpeaker(turn.speaker)}
+                            title="Rename speaker"
+                            className="mb-1 text-blue-300 hover:text-blue-200 text-xs font-medium transition-colors duration-200"
+                          >
+                            {speakerName(turn.speaker)}
+                          </button>
+                        )}
+                        <p className="text-slate-300 text-sm leading-relaxed">
+                          {renderSegments(turn.segments)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-slate-300 text-sm leading-relaxed">
+                    {renderSegments(
+                      segments.map((segment, index) => ({ segment, index }))
+                    )}
+                  </p>
+                )
+              ) : (
+                <p className="text-slate-300 text-sm leading-relaxed">
+                  {isExpanded ? transcriptText : transcriptData.truncated}
+                </p>
+              ))}
+
+            {(transcriptData.needsExpansion ||
+              isPreviewOnly ||
+              searchSnippet) && (
               <button
-                onClick={() => setIsExpanded(!isExpanded)}
+                onClick={toggleExpanded}
+                disabled={isLoadingTranscript}
                 className="flex items-center space-x-1 text-blue-400 hover:text-blue-300 text-sm transition-colors duration-200"
               >
-                {isExpanded ? (
+                {isLoadingTranscript ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>Loading...</span>
+                  </>
+                ) : isExpanded ? (
                   <>
                     <ChevronUp className="w-4 h-4" />
                     <span>Show less</span>
@@ -357,7 +974,19 @@ export const AudioLog: React.FC<AudioLogProps> = ({
             )}
           </div>
         )}
+
+        {/* Generated summary */}
+        {(hasTranscript || transcriptionStatus === "processing") && (
+          <InsightsSection entryId={entry.id} hasTranscript={hasTranscript} />
+        )}
       </div>
+
+      <RevisionHistoryModal
+        isOpen={isHistoryOpen}
+        entryId={entry.id}
+        onRestore={restoreRevision}
+        onClose={() => setIsHistoryOpen(false)}
+      />
     </div>
   );
 };
@@ -1,12 +1,45 @@
-import React, { useState, useEffect } from "react";
-import { Trash2, Calendar, Loader2, RefreshCw } from "lucide-react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { useSearchParams } from "react-router";
+import {
+  Trash2,
+  Calendar,
+  Loader2,
+  RefreshCw,
+  Search,
+  X,
+  SlidersHorizontal,
+  Upload,
+} from "lucide-react";
 import { ApiService } from "../services/api";
 import { useAuth } from "../context/AuthContext";
-import { supabase } from "../services/supabaseClient";
-import { getUserSettings } from "../utils/settings";
+import { useSettings } from "../context/SettingsContext";
+import {
+  countActiveFilters,
+  parseFilterParams,
+  toEntryFilters,
+  toFilterSearchParams,
+  unknownTagNames,
+} from "../utils/entryFilters";
+import type { EntryFilterParams } from "../utils/entryFilters";
+import {
+  listOutbox,
+  retryOutboxItem,
+  subscribeToOutbox,
+  syncOutbox,
+} from "../services/outbox";
 import { ConfirmationModal } from "./ConfirmationModal";
-import type { Entry } from "../types";
+import type {
+  Entry,
+  EntryCursor,
+  EntryFilters,
+  EntrySearchResult,
+  OutboxRecording,
+  Tag,
+} from "../types";
 import AudioLog from "./AudioLog";
+import LogFilters from "./LogFilters";
+import ImportModal from "./ImportModal";
+import PendingRecording from "./PendingRecording";
 
 /**
  * Audio logs component displaying user's voice journal entries with integrated player
@@ -18,6 +51,7 @@ interface AudioLogsProps {
 
 export const AudioLogs: React.FC<AudioLogsProps> = ({ refreshTrigger }) => {
   const { user } = useAuth();
+  const { settings } = useSettings();
   const [entries, setEntries] = useState<Entry[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [deletingId, setDeletingId] = useState<string | null>(null);
@@ -27,25 +61,237 @@ export const AudioLogs: React.FC<AudioLogsProps> = ({ refreshTrigger }) => {
   const [showTranscriptUpdateConfirm, setShowTranscriptUpdateConfirm] =
     useState<string | null>(null);
   const [transcribingId, setTranscribingId] = useState<string | null>(null);
+  const [pendingRecordings, setPendingRecordings] = useState<OutboxRecording[]>(
+    []
+  );
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<
+    EntrySearchResult[] | null
+  >(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [nextCursor, setNextCursor] = useState<EntryCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [totalCount, setTotalCount] = useState<number | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
+  // Bumped by every reload, so responses for older filters are dropped
+  const fetchRequestRef = useRef(0);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [tagsLoaded, setTagsLoaded] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Filters live in the URL so a filtered view can be bookmarked
+  const filterParams = useMemo(
+    () => parseFilterParams(searchParams),
+    [searchParams]
+  );
+  const activeFilterCount = countActiveFilters(filterParams);
+  const [showFilters, setShowFilters] = useState(activeFilterCount > 0);
+
+  // Tag filters reference names, so wait for the user's tags before querying
+  const waitingForTags = filterParams.tags.length > 0 && !tagsLoaded;
+  const filtersKey = JSON.stringify(toEntryFilters(filterParams, tags));
+  const unknownTags = tagsLoaded ? unknownTagNames(filterParams, tags) : [];
+  const entryFilters = useMemo(
+    () => JSON.parse(filtersKey) as EntryFilters,
+    [filtersKey]
+  );
 
-  const fetchEntries = React.useCallback(async () => {
+  const updateFilters = (filters: EntryFilterParams) => {
+    setSearchParams(toFilterSearchParams(searchParams, filters), {
+      replace: true,
+    });
+  };
+
+  const addTag = (tag: Tag) => {
+    setTags((prev) =>
+      [...prev, tag].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  };
+
+  useEffect(() => {
     if (!user) return;
 
+    ApiService.fetchTags(user.id).then((userTags) => {
+      setTags(userTags);
+      setTagsLoaded(true);
+    });
+  }, [user]);
+
+  // Reload the first page and the total count
+  const fetchEntries = React.useCallback(async () => {
+    if (!user || waitingForTags) return;
+
+    const requestId = ++fetchRequestRef.current;
     setLoading(true);
     try {
-      const fetchedEntries = await ApiService.fetchEntries(user.id);
-      setEntries(fetchedEntries);
+      const [page, count] = await Promise.all([
+        ApiService.fetchEntries(user.id, entryFilters),
+        ApiService.countEntries(user.id, entryFilters),
+      ]);
+      if (requestId !== fetchRequestRef.current) return;
+      setEntries(page.entries);
+      setNextCursor(page.nextCursor);
+      setTotalCount(count);
     } catch (error) {
       console.error("Error fetching entries:", error);
     } finally {
-      setLoading(false);
+      if (requestId === fetchRequestRef.current) setLoading(false);
     }
-  }, [user]);
+  }, [user, entryFilters, waitingForTags]);
+
+  // The sync effect reloads through this, so filter changes do not sync again
+  const fetchEntriesRef = useRef(fetchEntries);
+  useEffect(() => {
+    fetchEntriesRef.current = fetchEntries;
+  }, [fetchEntries]);
+
+  const loadMoreEntries = React.useCallback(async () => {
+    if (!user || !nextCursor || loadingMore) return;
+
+    const requestId = fetchRequestRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await ApiService.fetchEntries(
+        user.id,
+        entryFilters,
+        nextCursor
+      );
+      if (requestId !== fetchRequestRef.current) return;
+      setEntries((prev) => [
+        ...prev,
+        ...page.entries.filter((entry) => !prev.some((e) => e.id === entry.id)),
+      ]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading more entries:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [user, entryFilters, nextCursor, loadingMore]);
+
+  // Infinite scroll: load the next page when the sentinel comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor || loading || searchResults) return;
+
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed[0]?.isIntersecting) {
+          loadMoreEntries();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loading, searchResults, loadMoreEntries]);
 
   useEffect(() => {
     fetchEntries();
   }, [fetchEntries, refreshTrigger]);
 
+  // Debounced full-text search; an empty query shows the full list again
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      const results = await ApiService.searchEntries(query, entryFilters);
+      // The query or filters changed while this search was running
+      if (cancelled) return;
+      setSearchResults(results);
+      setIsSearching(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, entryFilters, refreshTrigger]);
+
+  // Recordings saved offline show up until they are uploaded
+  useEffect(() => {
+    if (!user) return;
+
+    const loadPendingRecordings = async () => {
+      const items = await listOutbox(user.id);
+      setPendingRecordings(items.filter((item) => item.status === "pending"));
+    };
+
+    loadPendingRecordings();
+    return subscribeToOutbox(loadPendingRecordings);
+  }, [user]);
+
+  // Upload outbox recordings on load and whenever connectivity returns
+  useEffect(() => {
+    if (!user) return;
+
+    const syncPendingRecordings = async () => {
+      setIsSyncing(true);
+      try {
+        const synced = await syncOutbox(user.id);
+        if (synced > 0) {
+          fetchEntriesRef.current();
+        }
+      } finally {
+        setIsSyncing(false);
+      }
+    };
+
+    syncPendingRecordings();
+    window.addEventListener("online", syncPendingRecordings);
+    return () => window.removeEventListener("online", syncPendingRecordings);
+  }, [user]);
+
+  const retryPendingRecording = async (recordingId: string) => {
+    if (!user) return;
+
+    setIsSyncing(true);
+    try {
+      const synced = await retryOutboxItem(recordingId, user.id);
+      if (synced > 0) {
+        fetchEntries();
+      }
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Follow transcription progress pushed by the background worker
+  useEffect(() => {
+    if (!user) return;
+
+    return ApiService.subscribeToEntryUpdates(user.id, (updatedEntry) => {
+      // Moved to the trash, possibly on another device
+      if (updatedEntry.deleted_at) {
+        removeEntryLocally(updatedEntry.id);
+        return;
+      }
+
+      setEntries((prev) =>
+        prev.map((e) =>
+          e.id === updatedEntry.id ? { ...e, ...updatedEntry } : e
+        )
+      );
+      setSearchResults((prev) =>
+        prev
+          ? prev.map((e) =>
+              e.id === updatedEntry.id ? { ...e, ...updatedEntry } : e
+            )
+          : prev
+      );
+    });
+  }, [user]);
+
   const confirmDelete = (entryId: string) => {
     setShowDeleteConfirm(entryId);
   };
@@ -67,98 +313,112 @@ export const AudioLogs: React.FC<AudioLogsProps> = ({ refreshTrigger }) => {
     generateTranscript(entryId);
   };
 
-  const deleteEntry = async (entryId: string) => {
+  const trashEntry = async (entryId: string) => {
     setDeletingId(entryId);
     setShowDeleteConfirm(null);
 
     // Add a small delay to show the delete animation
     setTimeout(async () => {
       try {
-        const success = await ApiService.deleteEntry(entryId);
+        const success = await ApiService.trashEntry(entryId);
         if (success) {
           // Animate out before removing from state
           setTimeout(() => {
-            setEntries((prev) => prev.filter((entry) => entry.id !== entryId));
+            removeEntryLocally(entryId);
+            setTotalCount((prev) => (prev !== null ? prev - 1 : prev));
             setDeletingId(null);
           }, 300); // Match animation duration
         } else {
           setDeletingId(null);
         }
       } catch (error) {
-        console.error("Error deleting entry:", error);
+        console.error("Error moving entry to trash:", error);
         setDeletingId(null);
       }
     }, 100); // Small delay to show initial delete state
   };
 
+  const removeEntryLocally = (entryId: string) => {
+    setEntries((prev) => prev.filter((entry) => entry.id !== entryId));
+    setSearchResults((prev) =>
+      prev ? prev.filter((entry) => entry.id !== entryId) : prev
+    );
+  };
+
+  const updateEntryLocally = (entryId: string, update: Partial<Entry>) => {
+    setEntries((prev) =>
+      prev.map((e) => (e.id === entryId ? { ...e, ...update } : e))
+    );
+    setSearchResults((prev) =>
+      prev
+        ? prev.map((e) => (e.id === entryId ? { ...e, ...update } : e))
+        : prev
+    );
+  };
+
+  // Search results may include entries that are not on a loaded page
+  const findEntry = (entryId: string | null) =>
+    (searchResults ?? entries).find((e) => e.id === entryId);
+
   const generateTranscript = async (entryId: string) => {
     setTranscribingId(entryId);
 
     try {
-      const entry = entries.find((e) => e.id === entryId);
+      const entry = findEntry(entryId);
       if (!entry || !entry.original_audio_url) {
         throw new Error("Entry or audio URL not found");
       }
 
-      // Create a signed URL for the private audio file
-      const { data, error } = await supabase.storage
-        .from("audio-recordings")
-        .createSignedUrl(entry.original_audio_url, 3600);
-
-      if (error) {
-        throw new Error(`Failed to create signed URL: ${error.message}`);
-      }
-
-      if (!data?.signedUrl) {
-        throw new Error("No signed URL returned");
-      }
-
-      // Fetch the audio blob using the signed URL
-      const response = await fetch(data.signedUrl);
-
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch audio: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const audioBlob = await response.blob();
-
       // Use user's preferred language for transcription
-      const userSettings = getUserSettings();
-      const language = userSettings.autoDetectLanguage
+      const language = settings.autoDetectLanguage
         ? undefined // Let API auto-detect
-        : userSettings.defaultLanguage;
+        : settings.defaultLanguage;
 
-      // Generate transcription using the API service with user's language preference
-      const transcription = await ApiService.generateTranscription(
-        audioBlob,
-        language
-      );
-
-      // Update the entry with the transcription
-      const updatedEntries = entries.map((e) => {
-        if (e.id === entryId) {
-          return {
-            ...e,
-            transcription,
-          };
-        }
-        return e;
+      // Queue the job; realtime updates flip the entry to done when it finishes
+      const queued = await ApiService.enqueueTranscription(entryId, {
+        language,
       });
 
-      setEntries(updatedEntries);
+      if (!queued) {
+        throw new Error("Could not queue transcription. Please retry.");
+      }
 
-      // Also update the database
-      await ApiService.updateEntryTranscription(entryId, transcription);
+      updateEntryLocally(entryId, {
+        transcription_status: "processing",
+        transcription_error: null,
+      });
     } catch (error) {
       console.error("Error generating transcript:", error);
+      const message =
+        error instanceof Error ? error.message : "Transcription failed";
+
+      // Keep any previous transcript; only the status reflects the failure
+      updateEntryLocally(entryId, {
+        transcription_status: "failed",
+        transcription_error: message,
+      });
     } finally {
       setTranscribingId(null);
     }
   };
 
-  if (loading) {
+  // Restored exports can bring new tags along
+  const handleImported = () => {
+    fetchEntries();
+    if (user) ApiService.fetchTags(user.id).then(setTags);
+  };
+
+  const importModal = user && (
+    <ImportModal
+      isOpen={showImport}
+      userId={user.id}
+      onImported={handleImported}
+      onClose={() => setShowImport(false)}
+    />
+  );
+
+  // Keep the filter controls on screen while a filtered view reloads
+  if (loading && entries.length === 0 && activeFilterCount === 0) {
     return (
       <div className="w-full max-w-4xl mx-auto">
         <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl p-8 shadow-2xl border border-slate-700/50">
@@ -170,7 +430,11 @@ export const AudioLogs: React.FC<AudioLogsProps> = ({ refreshTrigger }) => {
     );
   }
 
-  if (entries.length === 0) {
+  if (
+    entries.length === 0 &&
+    pendingRecordings.length === 0 &&
+    activeFilterCount === 0
+  ) {
     return (
       <div className="w-full max-w-4xl mx-auto">
         <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl p-8 shadow-2xl border border-slate-700/50">
@@ -184,25 +448,150 @@ export const AudioLogs: React.FC<AudioLogsProps> = ({ refreshTrigger }) => {
             <p className="text-slate-400">
               Start recording your first startup insight!
             </p>
+            <button
+              onClick={() => setShowImport(true)}
+              className="mt-4 inline-flex items-center space-x-2 text-sm text-blue-400 hover:text-blue-300 transition-colors duration-200"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Or import existing recordings</span>
+            </button>
           </div>
         </div>
+        {importModal}
       </div>
     );
   }
+
+  const visibleEntries: (Entry | EntrySearchResult)[] =
+    searchResults ?? entries;
+  const entryCount = totalCount ?? entries.length;
+  const transcriptUpdateEntry = findEntry(showTranscriptUpdateConfirm);
+
   return (
     <div className="w-full max-w-4xl mx-auto">
       <div className="bg-slate-800/50 backdrop-blur-sm rounded-2xl shadow-2xl border border-slate-700/50">
-        <div className="p-4 sm:p-6 border-b border-slate-700/50">
-          <h2 className="text-xl font-bold text-white">Your Founder Log</h2>
-          <p className="text-slate-400 text-sm mt-1">
-            {entries.length} {entries.length === 1 ? "entry" : "entries"}
-          </p>
+        <div className="p-4 sm:p-6 border-b border-slate-700/50 space-y-4">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <h2 className="text-xl font-bold text-white">Your Founder Log</h2>
+              <p className="text-slate-400 text-sm mt-1">
+                {searchResults
+                  ? `${searchResults.length} ${
+                      searchResults.length === 1 ? "match" : "matches"
+                    }`
+                  : `${entryCount} ${entryCount === 1 ? "entry" : "entries"}`}
+                {pendingRecordings.length > 0 &&
+                  ` · ${pendingRecordings.length} pending sync`}
+              </p>
+            </div>
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center space-x-2 px-3 py-2 bg-slate-900/50 text-slate-400 hover:text-white rounded-lg text-sm font-medium transition-colors duration-200"
+            >
+              <Upload className="w-4 h-4" />
+              <span className="hidden sm:inline">Import</span>
+            </button>
+          </div>
+
+          {/* Search bar and filters */}
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search your logs..."
+                aria-label="Search your logs"
+                className="w-full pl-9 pr-9 py-2 bg-slate-900/50 border border-slate-700/50 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent [&::-webkit-search-cancel-button]:hidden"
+              />
+              {isSearching ? (
+                <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-blue-400 animate-spin" />
+              ) : (
+                searchQuery && (
+                  <button
+                    onClick={() => setSearchQuery("")}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-white transition-colors duration-200"
+                    aria-label="Clear search"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )
+              )}
+            </div>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                showFilters || activeFilterCount > 0
+                  ? "bg-blue-500/20 text-blue-300 hover:bg-blue-500/30"
+                  : "bg-slate-900/50 text-slate-400 hover:text-white"
+              }`}
+              aria-label="Filters"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              <span className="hidden sm:inline">Filters</span>
+              {activeFilterCount > 0 && (
+                <span className="px-1.5 bg-blue-500 text-white rounded-full text-xs">
+                  {activeFilterCount}
+                </span>
+              )}
+            </button>
+          </div>
+
+          {showFilters && (
+            <LogFilters
+              tags={tags}
+              filters={filterParams}
+              unknownTags={unknownTags}
+              onChange={updateFilters}
+            />
+          )}
         </div>
 
         <div className="divide-y divide-slate-700/30">
-          {entries.map((entry, index) => {
+          {!searchResults &&
+            activeFilterCount === 0 &&
+            pendingRecordings.map((recording) => (
+              <PendingRecording
+                key={recording.id}
+                recording={recording}
+                isSyncing={isSyncing && navigator.onLine}
+                onRetry={retryPendingRecording}
+              />
+            ))}
+
+          {loading && (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="w-5 h-5 text-blue-400 animate-spin" />
+            </div>
+          )}
+
+          {!loading &&
+            !searchResults &&
+            activeFilterCount > 0 &&
+            entries.length === 0 && (
+              <div className="text-center py-12 px-4">
+                <p className="text-slate-400 text-sm">
+                  {unknownTags.length > 0
+                    ? `No tag named ${unknownTags
+                        .map((name) => `"${name}"`)
+                        .join(", ")}, so no logs match these filters`
+                    : "No logs match these filters"}
+                </p>
+              </div>
+            )}
+
+          {searchResults && searchResults.length === 0 && (
+            <div className="text-center py-12 px-4">
+              <p className="text-slate-400 text-sm">
+                No logs match "{searchQuery.trim()}"
+              </p>
+            </div>
+          )}
+
+          {visibleEntries.map((entry, index) => {
             const isDeleting = deletingId === entry.id;
-            const isLastItem = index === entries.length - 1;
+            const isLastItem = index === visibleEntries.length - 1;
 
             return (
               <div key={entry.id} className={isLastItem ? "rounded-b-2xl" : ""}>
@@ -210,26 +599,49 @@ export const AudioLogs: React.FC<AudioLogsProps> = ({ refreshTrigger }) => {
                   entry={entry}
                   isDeleting={isDeleting}
                   transcribingId={transcribingId}
+                  searchSnippet={"snippet" in entry ? entry.snippet : undefined}
                   onDelete={confirmDelete}
                   onTranscriptUpdate={confirmTranscriptUpdate}
                   onGenerateTranscript={generateTranscript}
+                  onEntryUpdated={updateEntryLocally}
+                  allTags={tags}
+                  onTagCreated={addTag}
                 />
               </div>
             );
           })}
+
+          {!searchResults && nextCursor && (
+            <div ref={loadMoreRef} className="p-4 flex justify-center">
+              <button
+                onClick={loadMoreEntries}
+                disabled={loadingMore}
+                className="px-4 py-2 bg-slate-700/50 hover:bg-slate-600/50 disabled:opacity-50 text-slate-300 hover:text-white rounded-lg text-sm font-medium transition-colors duration-200 flex items-center space-x-2"
+              >
+                {loadingMore ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span>Loading...</span>
+                  </>
+                ) : (
+                  <span>Load more</span>
+                )}
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
       {/* Confirmation Modals */}
       <ConfirmationModal
         isOpen={!!showDeleteConfirm}
-        onConfirm={() => deleteEntry(showDeleteConfirm!)}
+        onConfirm={() => trashEntry(showDeleteConfirm!)}
         onCancel={cancelDelete}
-        title="Delete Entry"
-        message={`This will permanently delete "${
-          entries.find((e) => e.id === showDeleteConfirm)?.title
-        }" and all associated audio files. This action cannot be undone.`}
-        confirmText="Delete"
+        title="Move to Trash"
+        message={`"${
+          findEntry(showDeleteConfirm)?.title
+        }" will be moved to the trash. You can restore it from there until it is permanently deleted.`}
+        confirmText="Move to Trash"
         cancelText="Cancel"
         confirmButtonClass="bg-red-500 hover:bg-red-600"
         icon={Trash2}
@@ -244,9 +656,13 @@ export const AudioLogs: React.FC<AudioLogsProps> = ({ refreshTrigger }) => {
         }
         onCancel={cancelTranscriptUpdate}
         title="Update Transcript"
-        message={`This will permanently replace the existing transcript for "${
-          entries.find((e) => e.id === showTranscriptUpdateConfirm)?.title
-        }". The previous transcription will be lost and cannot be recovered.`}
+        message={`This will replace the existing ${
+          transcriptUpdateEntry?.transcription_source === "manual"
+            ? "edited "
+            : ""
+        }transcript for "${
+          transcriptUpdateEntry?.title
+        }". The current version is kept in the entry's version history and can be restored.`}
         confirmText="Update"
         cancelText="Cancel"
         confirmButtonClass="bg-orange-500 hover:bg-orange-600"
@@ -254,6 +670,8 @@ export const AudioLogs: React.FC<AudioLogsProps> = ({ refreshTrigger }) => {
         iconClass="text-orange-400"
         iconBgClass="bg-orange-500/20"
       />
+
+      {importModal}
     </div>
   );
 };
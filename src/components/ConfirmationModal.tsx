@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { createPortal } from "react-dom";
 import type { LucideIcon } from "lucide-react";
 
@@ -18,6 +18,8 @@ interface ConfirmationModalProps {
   icon?: LucideIcon;
   iconClass?: string;
   iconBgClass?: string;
+  // When set, the user has to type this phrase before confirming
+  confirmationPhrase?: string;
 }
 
 export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
@@ -32,9 +34,19 @@ export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
   icon: Icon,
   iconClass = "text-blue-400",
   iconBgClass = "bg-blue-500/20",
+  confirmationPhrase,
 }) => {
+  const [typedPhrase, setTypedPhrase] = useState("");
+
+  useEffect(() => {
+    if (isOpen) setTypedPhrase("");
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
+  const canConfirm =
+    !confirmationPhrase || typedPhrase.trim() === confirmationPhrase;
+
   return createPortal(
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
       <div className="bg-slate-800 rounded-2xl p-6 max-w-sm w-full border border-slate-700/50 shadow-2xl">
@@ -52,6 +64,26 @@ export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
             <p className="text-slate-400 text-sm">{message}</p>
           </div>
 
+          {confirmationPhrase && (
+            <div className="text-left">
+              <label className="block text-xs text-slate-400 mb-1">
+                Type{" "}
+                <span className="font-mono text-white">
+                  {confirmationPhrase}
+                </span>{" "}
+                to confirm
+              </label>
+              <input
+                type="text"
+                value={typedPhrase}
+                onChange={(event) => setTypedPhrase(event.target.value)}
+                autoFocus
+                autoComplete="off"
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
           <div className="flex space-x-3">
             <button
               onClick={onCancel}
@@ -61,7 +93,8 @@ export const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
             </button>
             <button
               onClick={onConfirm}
-              className={`flex-1 py-2 px-4 ${confirmButtonClass} text-white rounded-lg transition-all duration-200 text-sm font-medium`}
+              disabled={!canConfirm}
+              className={`flex-1 py-2 px-4 ${confirmButtonClass} text-white rounded-lg transition-all duration-200 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed`}
             >
               {confirmText}
             </button>
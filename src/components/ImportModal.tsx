@@ -0,0 +1,253 @@
+import React, { useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import {
+  Upload,
+  X,
+  Loader2,
+  CheckCircle,
+  AlertCircle,
+  FileAudio,
+  FileArchive,
+  MinusCircle,
+  Clock,
+} from "lucide-react";
+import { ApiService } from "../services/api";
+import {
+  getImportFileKind,
+  importArchive,
+  importAudioFile,
+} from "../services/import";
+import type { ImportFileKind } from "../services/import";
+import { AUDIO_FILE_ACCEPT } from "../utils/audioFiles";
+import { useSettings } from "../context/SettingsContext";
+
+/**
+ * Modal for importing audio files and restoring exports, with per-file progress
+ */
+
+interface ImportModalProps {
+  isOpen: boolean;
+  userId: string;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+type ImportStatus = "queued" | "importing" | "done" | "skipped" | "failed";
+
+interface ImportItem {
+  id: string;
+  file: File;
+  kind: ImportFileKind | null;
+  status: ImportStatus;
+  detail: string | null;
+}
+
+export const ImportModal: React.FC<ImportModalProps> = ({
+  isOpen,
+  userId,
+  onImported,
+  onClose,
+}) => {
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const { settings } = useSettings();
+
+  if (!isOpen) return null;
+
+  const updateItem = (id: string, update: Partial<ImportItem>) =>
+    setItems((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...update } : item))
+    );
+
+  const importItem = async (item: ImportItem) => {
+    updateItem(item.id, { status: "importing", detail: null });
+
+    if (item.kind === "audio") {
+      await importAudioFile(item.file, userId, {
+        language: settings.autoDetectLanguage
+          ? ApiService.detectUserLanguage()
+          : settings.defaultLanguage,
+        identifySpeakers: settings.identifySpeakers,
+      });
+      updateItem(item.id, { status: "done", detail: "Transcribing..." });
+      return;
+    }
+
+    const result = await importArchive(item.file, userId, (done, total) =>
+      updateItem(item.id, { detail: `Restoring ${done} of ${total}...` })
+    );
+    const parts = [`${result.restored} restored`];
+    if (result.skipped > 0) parts.push(`${result.skipped} already present`);
+    if (result.failed > 0) parts.push(`${result.failed} failed`);
+    updateItem(item.id, {
+      status:
+        result.failed > 0
+          ? "failed"
+          : result.restored === 0
+          ? "skipped"
+          : "done",
+      detail: parts.join(", "),
+    });
+  };
+
+  // Files are imported one at a time so progress stays readable
+  const addFiles = async (files: File[]) => {
+    const newItems: ImportItem[] = files.map((file) => {
+      const kind = getImportFileKind(file);
+      return {
+        id: crypto.randomUUID(),
+        file,
+        kind,
+        status: kind ? "queued" : "failed",
+        detail: kind ? null : "Unsupported file type",
+      };
+    });
+    setItems((prev) => [...prev, ...newItems]);
+
+    setIsImporting(true);
+    let imported = false;
+    for (const item of newItems.filter((item) => item.kind)) {
+      try {
+        await importItem(item);
+        imported = true;
+      } catch (error) {
+        updateItem(item.id, {
+          status: "failed",
+          detail: error instanceof Error ? error.message : "Import failed",
+        });
+      }
+    }
+    setIsImporting(false);
+
+    if (imported) onImported();
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isImporting) return;
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    setItems([]);
+    onClose();
+  };
+
+  const statusIcon = (status: ImportStatus) => {
+    switch (status) {
+      case "queued":
+        return <Clock className="w-4 h-4 text-slate-500" />;
+      case "importing":
+        return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />;
+      case "done":
+        return <CheckCircle className="w-4 h-4 text-green-400" />;
+      case "skipped":
+        return <MinusCircle className="w-4 h-4 text-slate-400" />;
+      case "failed":
+        return <AlertCircle className="w-4 h-4 text-red-400" />;
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-800 rounded-2xl max-w-lg w-full max-h-[80vh] flex flex-col border border-slate-700/50 shadow-2xl">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-blue-500/20 rounded-full flex items-center justify-center">
+              <Upload className="w-5 h-5 text-blue-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-white">Import</h3>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={isImporting}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-700/50 disabled:opacity-50 transition-colors duration-200"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-6 pb-6 space-y-4 overflow-y-auto">
+          <div
+            onDragOver={(event) => {
+              event.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => !isImporting && fileInputRef.current?.click()}
+            className={`border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-colors duration-200 ${
+              isDragging
+                ? "border-blue-400 bg-blue-500/10"
+                : "border-slate-600 hover:border-slate-500"
+            }`}
+          >
+            <Upload className="w-8 h-8 text-slate-400 mx-auto mb-2" />
+            <p className="text-white text-sm font-medium">
+              Drop files here or click to choose
+            </p>
+            <p className="text-slate-400 text-xs mt-1">
+              Audio (WebM, MP3, M4A, WAV, OGG, FLAC, up to 50 MB) is transcribed
+              as new entries. Exports (.json or .zip) restore their entries.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={`${AUDIO_FILE_ACCEPT},.json,.zip`}
+              onClick={(event) => event.stopPropagation()}
+              onChange={(event) => {
+                addFiles(Array.from(event.target.files || []));
+                event.target.value = "";
+              }}
+              className="hidden"
+            />
+          </div>
+
+          {items.length > 0 && (
+            <ul className="space-y-2">
+              {items.map((item) => (
+                <li
+                  key={item.id}
+                  className="flex items-center gap-3 bg-slate-900/50 rounded-lg px-3 py-2"
+                >
+                  {item.kind === "archive" ? (
+                    <FileArchive className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                  ) : (
+                    <FileAudio className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">
+                      {item.file.name}
+                    </p>
+                    {item.detail && (
+                      <p
+                        className={`text-xs ${
+                          item.status === "failed"
+                            ? "text-red-300"
+                            : "text-slate-400"
+                        }`}
+                      >
+                        {item.detail}
+                      </p>
+                    )}
+                  </div>
+                  <span className="flex-shrink-0">
+                    {statusIcon(item.status)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ImportModal;
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from "react";
+import {
+  Sparkles,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  RefreshCw,
+  Gavel,
+  ListChecks,
+  HelpCircle,
+  AlertCircle,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { ApiService } from "../services/api";
+import type { EntryInsights } from "../types";
+
+/**
+ * Collapsible summary, decisions, action items and open questions of an entry
+ */
+
+interface InsightsSectionProps {
+  entryId: string;
+  hasTranscript: boolean;
+}
+
+export const InsightsSection: React.FC<InsightsSectionProps> = ({
+  entryId,
+  hasTranscript,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [insights, setInsights] = useState<EntryInsights | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Load on first open and follow generation while open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    ApiService.fetchEntryInsights(entryId).then((data) => {
+      if (cancelled) return;
+      setInsights(data);
+      setIsLoading(false);
+    });
+
+    const unsubscribe = ApiService.subscribeToEntryInsights(entryId, (data) =>
+      setInsights((prev) => ({ ...prev, ...data }))
+    );
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [isOpen, entryId]);
+
+  const generateInsights = async () => {
+    setIsGenerating(true);
+    await ApiService.generateEntryInsights(entryId);
+    // The function records failures on the row, so refetch either way
+    setInsights(await ApiService.fetchEntryInsights(entryId));
+    setIsGenerating(false);
+  };
+
+  const isProcessing = isGenerating || insights?.status === "processing";
+
+  const renderList = (title: string, icon: LucideIcon, items: string[]) => {
+    if (items.length === 0) return null;
+    const Icon = icon;
+
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2 text-slate-400 text-xs font-medium uppercase tracking-wide">
+          <Icon className="w-3.5 h-3.5" />
+          <span>{title}</span>
+        </div>
+        <ul className="list-disc pl-5 space-y-1 text-slate-300 text-sm">
+          {items.map((item, index) => (
+            <li key={index}>{item}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-slate-900/50 rounded-lg">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-3 text-sm text-slate-300 hover:text-white transition-colors duration-200"
+      >
+        <span className="flex items-center space-x-2">
+          <Sparkles className="w-4 h-4 text-blue-400" />
+          <span className="font-medium">Insights</span>
+        </span>
+        {isOpen ? (
+          <ChevronUp className="w-4 h-4" />
+        ) : (
+          <ChevronDown className="w-4 h-4" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+            </div>
+          ) : isProcessing ? (
+            <div className="flex items-center space-x-2 text-slate-400 text-sm">
+              <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+              <span>Generating insights...</span>
+            </div>
+          ) : insights?.status === "completed" ? (
+            <>
+              {insights.tldr && (
+                <p className="text-slate-300 text-sm leading-relaxed">
+                  {insights.tldr}
+                </p>
+              )}
+              {renderList("Decisions", Gavel, insights.decisions)}
+              {renderList("Action items", ListChecks, insights.action_items)}
+              {renderList(
+                "Open questions",
+                HelpCircle,
+                insights.open_questions
+              )}
+              <button
+                onClick={generateInsights}
+                disabled={!hasTranscript}
+                className="flex items-center space-x-1 text-slate-400 hover:text-white disabled:opacity-50 text-xs transition-colors duration-200"
+              >
+                <RefreshCw className="w-3 h-3" />
+                <span>Regenerate</span>
+              </button>
+            </>
+          ) : (
+            <div className="flex items-start justify-between gap-3">
+              {insights?.status === "failed" ? (
+                <div className="flex items-start space-x-2 min-w-0">
+                  <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                  <p className="text-red-300 text-xs break-words">
+                    {insights.error || "Generating insights failed"}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-slate-400 text-sm">
+                  {hasTranscript
+                    ? "No insights yet"
+                    : "Insights are generated once the entry is transcribed"}
+                </p>
+              )}
+              <button
+                onClick={generateInsights}
+                disabled={!hasTranscript}
+                className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500/20 hover:bg-blue-500/30 disabled:opacity-50 text-blue-300 rounded-lg text-xs font-medium transition-colors duration-200 flex-shrink-0"
+              >
+                <Sparkles className="w-3 h-3" />
+                <span>
+                  {insights?.status === "failed" ? "Retry" : "Generate"}
+                </span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsightsSection;
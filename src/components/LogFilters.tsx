@@ -0,0 +1,150 @@
+import React from "react";
+import { Tag as TagIcon, Calendar, Clock, X } from "lucide-react";
+import { DURATION_FILTERS } from "../utils/entryFilters";
+import type { DurationFilter, EntryFilterParams } from "../utils/entryFilters";
+import type { Tag } from "../types";
+
+/**
+ * Tag, date-range and duration filters for the founder log list
+ */
+
+interface LogFiltersProps {
+  tags: Tag[];
+  filters: EntryFilterParams;
+  // Tag names in the filters that the user has no tag for
+  unknownTags?: string[];
+  onChange: (filters: EntryFilterParams) => void;
+}
+
+export const LogFilters: React.FC<LogFiltersProps> = ({
+  tags,
+  filters,
+  unknownTags = [],
+  onChange,
+}) => {
+  const isTagSelected = (tag: Tag) =>
+    filters.tags.some((name) => name.toLowerCase() === tag.name.toLowerCase());
+
+  const toggleTag = (tag: Tag) => {
+    onChange({
+      ...filters,
+      tags: isTagSelected(tag)
+        ? filters.tags.filter(
+            (name) => name.toLowerCase() !== tag.name.toLowerCase()
+          )
+        : [...filters.tags, tag.name],
+    });
+  };
+
+  const inputClass =
+    "px-2 py-1.5 bg-slate-900/50 border border-slate-700/50 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent [color-scheme:dark]";
+
+  return (
+    <div className="bg-slate-900/30 rounded-lg p-3 space-y-3">
+      {/* Tags */}
+      <div className="flex items-start gap-2">
+        <TagIcon className="w-4 h-4 text-slate-400 flex-shrink-0 mt-1" />
+        {tags.length === 0 && unknownTags.length === 0 ? (
+          <p className="text-slate-500 text-sm">
+            No tags yet. Add tags to an entry to filter by them.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {tags.map((tag) => (
+              <button
+                key={tag.id}
+                onClick={() => toggleTag(tag)}
+                className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors duration-200 ${
+                  isTagSelected(tag)
+                    ? "bg-blue-500 text-white"
+                    : "bg-slate-700/50 text-slate-300 hover:text-white hover:bg-slate-600/50"
+                }`}
+              >
+                {tag.name}
+              </button>
+            ))}
+            {unknownTags.map((name) => (
+              <button
+                key={name}
+                onClick={() =>
+                  onChange({
+                    ...filters,
+                    tags: filters.tags.filter((tag) => tag !== name),
+                  })
+                }
+                title="Remove this filter"
+                className="flex items-center space-x-1 px-2.5 py-1 rounded-full text-xs font-medium bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors duration-200"
+              >
+                <span>No tag named "{name}"</span>
+                <X className="w-3 h-3" />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        {/* Date range */}
+        <div className="flex items-center gap-2">
+          <Calendar className="w-4 h-4 text-slate-400 flex-shrink-0" />
+          <input
+            type="date"
+            value={filters.from ?? ""}
+            max={filters.to ?? undefined}
+            onChange={(e) =>
+              onChange({ ...filters, from: e.target.value || null })
+            }
+            aria-label="From date"
+            className={inputClass}
+          />
+          <span className="text-slate-500 text-sm">to</span>
+          <input
+            type="date"
+            value={filters.to ?? ""}
+            min={filters.from ?? undefined}
+            onChange={(e) =>
+              onChange({ ...filters, to: e.target.value || null })
+            }
+            aria-label="To date"
+            className={inputClass}
+          />
+        </div>
+
+        {/* Duration */}
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-slate-400 flex-shrink-0" />
+          <select
+            value={filters.duration ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...filters,
+                duration: (e.target.value as DurationFilter) || null,
+              })
+            }
+            aria-label="Duration"
+            className={inputClass}
+          >
+            <option value="">Any length</option>
+            {DURATION_FILTERS.map((filter) => (
+              <option key={filter.value} value={filter.value}>
+                {filter.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          onClick={() =>
+            onChange({ tags: [], from: null, to: null, duration: null })
+          }
+          className="flex items-center space-x-1 text-slate-400 hover:text-white text-sm transition-colors duration-200"
+        >
+          <X className="w-4 h-4" />
+          <span>Clear filters</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LogFilters;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from "react";
+import {
+  getPreferredMicrophone,
+  listMicrophones,
+  setPreferredMicrophone,
+} from "../utils/microphone";
+
+/**
+ * Microphone picker that follows devices being plugged in and out
+ */
+
+interface MicrophoneSelectProps {
+  disabled?: boolean;
+  // Smaller version for the recorder
+  compact?: boolean;
+  className?: string;
+  // Bump to list devices again, e.g. after microphone access was granted
+  refreshKey?: number;
+}
+
+export const MicrophoneSelect: React.FC<MicrophoneSelectProps> = ({
+  disabled = false,
+  compact = false,
+  className = "",
+  refreshKey = 0,
+}) => {
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [selected, setSelected] = useState(getPreferredMicrophone() ?? "");
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () =>
+      listMicrophones().then((devices) => {
+        if (!cancelled) setMicrophones(devices);
+      });
+
+    refresh();
+    navigator.mediaDevices?.addEventListener("devicechange", refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener("devicechange", refresh);
+    };
+  }, [refreshKey]);
+
+  const handleChange = (deviceId: string) => {
+    setSelected(deviceId);
+    setPreferredMicrophone(deviceId || null);
+  };
+
+  // "default" is the browser's own entry for the system default device
+  const choices = microphones.filter(
+    (microphone) => microphone.deviceId !== "default"
+  );
+  const isDisconnected =
+    !!selected &&
+    !choices.some((microphone) => microphone.deviceId === selected);
+
+  return (
+    <select
+      value={selected}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={disabled}
+      title="Microphone"
+      className={`border text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+        compact
+          ? "bg-slate-600 border-slate-500 rounded px-2 py-1 text-xs"
+          : "bg-slate-700 border-slate-600 rounded-lg px-3 py-2 text-sm"
+      } ${className}`}
+    >
+      <option value="">System default</option>
+      {choices.map((microphone, index) => (
+        <option key={microphone.deviceId} value={microphone.deviceId}>
+          {microphone.label || `Microphone ${index + 1}`}
+        </option>
+      ))}
+      {isDisconnected && (
+        <option value={selected}>
+          {choices.length > 0
+            ? "Saved microphone (not connected)"
+            : "Saved microphone"}
+        </option>
+      )}
+    </select>
+  );
+};
+
+export default MicrophoneSelect;
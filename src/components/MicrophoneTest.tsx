@@ -0,0 +1,176 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Mic, Square, Play, Pause } from "lucide-react";
+import RecordingMeter from "./RecordingMeter";
+import { pickRecordingMimeType } from "../utils/audioFiles";
+import { openMicrophone, recordingBitrate } from "../utils/microphone";
+
+/**
+ * Short test recording with the chosen microphone and quality, played back
+ * so the user can hear what their recordings will sound like
+ */
+
+interface MicrophoneTestProps {
+  highQuality: boolean;
+  // Called once microphone access was granted, so device names can be shown
+  onAccessGranted?: () => void;
+}
+
+const TEST_SECONDS = 5;
+
+export const MicrophoneTest: React.FC<MicrophoneTestProps> = ({
+  highQuality,
+  onAccessGranted,
+}) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Release the microphone and the test recording when leaving the page
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") {
+        recorder.onstop = () =>
+          recorder.stream.getTracks().forEach((track) => track.stop());
+        recorder.stop();
+      }
+      audioRef.current?.pause();
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (audioUrl) URL.revokeObjectURL(audioUrl);
+    };
+  }, [audioUrl]);
+
+  const stopTest = () => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    if (recorderRef.current?.state !== "inactive") {
+      recorderRef.current?.stop();
+    }
+  };
+
+  const startTest = async () => {
+    setError(null);
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    setAudioUrl(null);
+
+    try {
+      const mimeType = pickRecordingMimeType();
+      if (mimeType === null) {
+        throw new Error("Audio recording is not supported in this browser.");
+      }
+
+      const microphone = await openMicrophone(highQuality);
+      onAccessGranted?.();
+
+      const recorder = new MediaRecorder(microphone, {
+        ...(mimeType ? { mimeType } : {}),
+        audioBitsPerSecond: recordingBitrate(highQuality),
+      });
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        microphone.getTracks().forEach((track) => track.stop());
+        setStream(null);
+        setAudioUrl(
+          URL.createObjectURL(
+            new Blob(chunks, { type: recorder.mimeType || mimeType })
+          )
+        );
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setStream(microphone);
+      timeoutRef.current = setTimeout(stopTest, TEST_SECONDS * 1000);
+    } catch (error) {
+      console.error("Error testing microphone:", error);
+      setError(
+        error instanceof Error && error.name === "NotAllowedError"
+          ? "Microphone access denied. Please allow microphone permissions and try again."
+          : error instanceof Error && error.message
+          ? error.message
+          : "Could not open the microphone."
+      );
+    }
+  };
+
+  const togglePlayback = () => {
+    if (!audioUrl) return;
+
+    if (isPlaying) {
+      audioRef.current?.pause();
+      setIsPlaying(false);
+      return;
+    }
+
+    const audio = new Audio(audioUrl);
+    audio.onended = () => setIsPlaying(false);
+    audioRef.current = audio;
+    audio
+      .play()
+      .then(() => setIsPlaying(true))
+      .catch((error) => console.error("Error playing test recording:", error));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={stream ? stopTest : startTest}
+          className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+            stream
+              ? "bg-red-500 hover:bg-red-600 text-white"
+              : "bg-slate-700 hover:bg-slate-600 text-slate-200"
+          }`}
+        >
+          {stream ? (
+            <Square className="w-4 h-4" />
+          ) : (
+            <Mic className="w-4 h-4" />
+          )}
+          <span>{stream ? "Stop Test" : "Test Microphone"}</span>
+        </button>
+        {audioUrl && !stream && (
+          <button
+            onClick={togglePlayback}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium text-white transition-colors"
+          >
+            {isPlaying ? (
+              <Pause className="w-4 h-4" />
+            ) : (
+              <Play className="w-4 h-4" />
+            )}
+            <span>{isPlaying ? "Pause" : "Play Back"}</span>
+          </button>
+        )}
+      </div>
+
+      {stream && (
+        <div className="bg-slate-700/30 rounded-lg p-3 space-y-2">
+          <p className="text-xs text-slate-400">
+            Say a few words. The test stops after {TEST_SECONDS} seconds.
+          </p>
+          <RecordingMeter stream={stream} isPaused={false} />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default MicrophoneTest;
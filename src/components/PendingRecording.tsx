@@ -0,0 +1,94 @@
+import React from "react";
+import { Calendar, Clock, CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { MAX_SYNC_ATTEMPTS } from "../services/outbox";
+import type { OutboxRecording } from "../types";
+
+/**
+ * Recording stored in the offline outbox that has not been uploaded yet
+ */
+
+interface PendingRecordingProps {
+  recording: OutboxRecording;
+  isSyncing: boolean;
+  // Upload again after automatic syncing gave up on the recording
+  onRetry: (recordingId: string) => void;
+}
+
+export const PendingRecording: React.FC<PendingRecordingProps> = ({
+  recording,
+  isSyncing,
+  onRetry,
+}) => {
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  };
+
+  const formatDuration = (seconds: number): string => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, "0")}`;
+  };
+
+  const recordedAt = new Date(recording.createdAt);
+  const hasFailed = recording.attempts >= MAX_SYNC_ATTEMPTS;
+
+  return (
+    <div className="p-4 sm:p-6 bg-slate-900/20">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-slate-300 font-medium mb-2 truncate">
+            Founder Log -{" "}
+            {recordedAt.toLocaleTimeString([], {
+              hour: "2-digit",
+              minute: "2-digit",
+            })}
+          </h3>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-slate-400">
+            <div className="flex items-center space-x-1">
+              <Calendar className="w-4 h-4" />
+              <span>{formatDate(recording.createdAt)}</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Clock className="w-4 h-4" />
+              <span>{formatDuration(recording.duration)}</span>
+            </div>
+          </div>
+          {recording.lastError && !isSyncing && (
+            <p className="text-xs text-slate-500 mt-2">{recording.lastError}</p>
+          )}
+        </div>
+
+        {hasFailed ? (
+          <button
+            onClick={() => onRetry(recording.id)}
+            disabled={isSyncing}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 disabled:opacity-50 text-red-300 hover:text-red-200 rounded-lg text-xs font-medium transition-colors duration-200 flex-shrink-0"
+          >
+            <RefreshCw className="w-3 h-3" />
+            <span>Retry</span>
+          </button>
+        ) : (
+          <div className="flex items-center space-x-1.5 px-3 py-1.5 rounded-full bg-amber-500/10 border border-amber-500/20 text-amber-300 text-xs font-medium flex-shrink-0">
+            {isSyncing ? (
+              <>
+                <Loader2 className="w-3 h-3 animate-spin" />
+                <span>Syncing...</span>
+              </>
+            ) : (
+              <>
+                <CloudOff className="w-3 h-3" />
+                <span>Pending sync</span>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PendingRecording;
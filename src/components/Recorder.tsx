@@ -8,10 +8,25 @@ import {
   Save,
   AlertCircle,
   Globe,
+  CloudOff,
+  Users,
+  PauseCircle,
+  PlayCircle,
 } from "lucide-react";
 import { ApiService } from "../services/api";
+import { pickRecordingMimeType } from "../utils/audioFiles";
+import { openMicrophone, recordingBitrate } from "../utils/microphone";
+import RecordingMeter from "./RecordingMeter";
+import MicrophoneSelect from "./MicrophoneSelect";
+import {
+  addToOutbox,
+  listOutbox,
+  removeFromOutbox,
+  syncOutbox,
+  updateOutboxItem,
+} from "../services/outbox";
 import { useAuth } from "../context/AuthContext";
-import { getUserSettings } from "../utils/settings";
+import { useSettings } from "../context/SettingsContext";
 import type { AudioRecordingState } from "../types";
 
 /**
@@ -22,10 +37,29 @@ interface RecorderProps {
   onEntryCreated?: () => void;
 }
 
+// Recorded time before the current stretch of recording, and when that
+// stretch began (null while paused)
+interface RecordingClock {
+  elapsedMs: number;
+  resumedAt: number | null;
+}
+
+const clockSeconds = ({ elapsedMs, resumedAt }: RecordingClock): number =>
+  Math.floor(
+    (elapsedMs + (resumedAt === null ? 0 : Date.now() - resumedAt)) / 1000
+  );
+
+// Shortcuts should not fire while the user is typing
+const isTypingTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
 export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
   const { user } = useAuth();
   const [recordingState, setRecordingState] = useState<AudioRecordingState>({
     isRecording: false,
+    isPaused: false,
     isLoading: false,
     isPlaying: false,
     audioBlob: null,
@@ -33,48 +67,103 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
     error: null,
   });
   const [isDeleting, setIsDeleting] = useState(false);
-  const [selectedLanguage, setSelectedLanguage] = useState(() => {
-    const userSettings = getUserSettings();
-    console.log("Initial recorder settings:", userSettings);
-    console.log("Setting selectedLanguage to:", userSettings.defaultLanguage);
-    // Always start with the user's default language, regardless of auto-detect setting
-    // This gives them a proper starting point and shows their preference
-    return userSettings.defaultLanguage;
-  });
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  // Microphone stream while recording, for the level meter
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const { settings } = useSettings();
+  // Always start with the user's default language, regardless of auto-detect
+  // setting; this gives them a proper starting point and shows their preference
+  const [selectedLanguage, setSelectedLanguage] = useState(
+    settings.defaultLanguage
+  );
+  const [identifySpeakers, setIdentifySpeakers] = useState(
+    settings.identifySpeakers
+  );
 
-  // Update language when recording stops to respect settings
+  // Show the user's defaults again for each new recording, and when the
+  // settings change (possibly on another device)
   useEffect(() => {
-    if (recordingState.audioBlob) {
-      const userSettings = getUserSettings();
-      // If auto-detect is enabled, we could auto-detect, but for UX consistency,
-      // let's keep showing their default language so they can change it if needed
-      // Always show the user's default language in the dropdown
-      setSelectedLanguage(userSettings.defaultLanguage);
-    }
-  }, [recordingState.audioBlob]);
+    setSelectedLanguage(settings.defaultLanguage);
+    setIdentifySpeakers(settings.identifySpeakers);
+  }, [
+    recordingState.audioBlob,
+    settings.defaultLanguage,
+    settings.identifySpeakers,
+  ]);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const clockRef = useRef<RecordingClock>({ elapsedMs: 0, resumedAt: null });
   const chunksRef = useRef<Blob[]>([]);
+  const draftIdRef = useRef<string | null>(null);
+
+  const startTicking = useCallback(() => {
+    intervalRef.current = setInterval(() => {
+      setRecordingState((prev) => ({
+        ...prev,
+        duration: clockSeconds(clockRef.current),
+      }));
+    }, 1000);
+  }, []);
+
+  const stopTicking = useCallback(() => {
+    if (intervalRef.current) {
+      clearInterval(intervalRef.current);
+      intervalRef.current = null;
+    }
+  }, []);
+
+  // With auto-save on, keep the recording in the offline outbox as soon as it
+  // stops, so it survives a reload before the user presses Save
+  const saveDraft = useCallback(
+    async (audioBlob: Blob, duration: number) => {
+      if (!user || !settings.autoSaveRecordings) return;
+
+      try {
+        const draft = await addToOutbox({
+          userId: user.id,
+          blob: audioBlob,
+          duration,
+          language: settings.defaultLanguage,
+          identifySpeakers: settings.identifySpeakers,
+          createdAt: new Date().toISOString(),
+          status: "draft",
+        });
+        draftIdRef.current = draft.id;
+      } catch (error) {
+        console.error("Error auto-saving recording:", error);
+      }
+    },
+    [user, settings]
+  );
 
   const startRecording = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          sampleRate: 44100,
-        },
-      });
-
-      if (!MediaRecorder.isTypeSupported("audio/webm")) {
+      const mimeType = pickRecordingMimeType();
+      if (mimeType === null) {
         throw new Error("Audio recording is not supported in this browser");
       }
 
+      const stream = await openMicrophone(settings.highQualityAudio);
+
       const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: "audio/webm",
+        ...(mimeType ? { mimeType } : {}),
+        audioBitsPerSecond: recordingBitrate(settings.highQualityAudio),
+      });
+
+      // An unplugged microphone ends the recording; what was said is kept
+      stream.getAudioTracks().forEach((track) => {
+        track.onended = () => {
+          if (mediaRecorder.state === "inactive") return;
+          mediaRecorder.stop();
+          stopTicking();
+          setRecordingState((prev) => ({
+            ...prev,
+            error:
+              "Your microphone was disconnected, so the recording was stopped. You can still save what was recorded.",
+          }));
+        };
       });
 
       chunksRef.current = [];
@@ -87,13 +176,26 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
       };
 
       mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(chunksRef.current, { type: "audio/webm" });
+        // The format the browser actually recorded, which may differ from the
+        // requested one in its codec parameters
+        const audioBlob = new Blob(chunksRef.current, {
+          type:
+            mediaRecorder.mimeType ||
+            chunksRef.current[0]?.type ||
+            mimeType ||
+            "audio/webm",
+        });
+        const duration = clockSeconds(clockRef.current);
         setRecordingState((prev) => ({
           ...prev,
           isRecording: false,
+          isPaused: false,
           audioBlob,
+          duration,
         }));
         stream.getTracks().forEach((track) => track.stop());
+        setStream(null);
+        saveDraft(audioBlob, duration);
       };
 
       mediaRecorder.onerror = (event) => {
@@ -102,26 +204,27 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
           ...prev,
           error: "Recording failed. Please try again.",
           isRecording: false,
+          isPaused: false,
         }));
+        stopTicking();
         stream.getTracks().forEach((track) => track.stop());
+        setStream(null);
       };
 
       mediaRecorder.start(1000);
+      setStream(stream);
 
-      const startTime = Date.now();
-      intervalRef.current = setInterval(() => {
-        setRecordingState((prev) => ({
-          ...prev,
-          duration: Math.floor((Date.now() - startTime) / 1000),
-        }));
-      }, 1000);
+      clockRef.current = { elapsedMs: 0, resumedAt: Date.now() };
+      startTicking();
 
       setRecordingState((prev) => ({
         ...prev,
         isRecording: true,
+        isPaused: false,
         duration: 0,
         error: null,
       }));
+      setSyncNotice(null);
     } catch (error) {
       console.error("Error starting recording:", error);
       let errorMessage = "Failed to access microphone.";
@@ -145,17 +248,82 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
         error: errorMessage,
       }));
     }
-  }, []);
+  }, [saveDraft, startTicking, stopTicking, settings.highQualityAudio]);
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && recordingState.isRecording) {
       mediaRecorderRef.current.stop();
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+      stopTicking();
+    }
+  }, [recordingState.isRecording, stopTicking]);
+
+  // Paused time is left out of the recording and of its duration
+  const pauseRecording = useCallback(() => {
+    const mediaRecorder = mediaRecorderRef.current;
+    const clock = clockRef.current;
+    if (mediaRecorder?.state !== "recording" || clock.resumedAt === null) {
+      return;
     }
-  }, [recordingState.isRecording]);
+
+    mediaRecorder.pause();
+    stopTicking();
+    clock.elapsedMs += Date.now() - clock.resumedAt;
+    clock.resumedAt = null;
+    setRecordingState((prev) => ({
+      ...prev,
+      isPaused: true,
+      duration: clockSeconds(clock),
+    }));
+  }, [stopTicking]);
+
+  const resumeRecording = useCallback(() => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (mediaRecorder?.state !== "paused") return;
+
+    mediaRecorder.resume();
+    clockRef.current.resumedAt = Date.now();
+    startTicking();
+    setRecordingState((prev) => ({ ...prev, isPaused: false }));
+  }, [startTicking]);
+
+  // Space pauses or resumes, S stops
+  useEffect(() => {
+    if (!recordingState.isRecording) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.repeat ||
+        event.altKey ||
+        event.ctrlKey ||
+        event.metaKey ||
+        isTypingTarget(event.target)
+      ) {
+        return;
+      }
+
+      if (event.code === "Space") {
+        // Also keeps Space from clicking the focused record button
+        event.preventDefault();
+        if (recordingState.isPaused) {
+          resumeRecording();
+        } else {
+          pauseRecording();
+        }
+      } else if (event.key.toLowerCase() === "s") {
+        event.preventDefault();
+        stopRecording();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [
+    recordingState.isRecording,
+    recordingState.isPaused,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+  ]);
 
   const playRecording = useCallback(() => {
     if (recordingState.audioBlob && !recordingState.isPlaying) {
@@ -207,68 +375,89 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
         throw new Error("Recording is empty. Please try recording again.");
       }
 
-      const fileName = `recording_${Date.now()}.webm`;
-      const originalAudioUrl = await ApiService.uploadAudio(
-        recordingState.audioBlob,
-        fileName,
-        user.id
-      );
-
-      if (!originalAudioUrl) {
-        throw new Error(
-          "Failed to upload audio file. Please check your internet connection and try again."
-        );
-      }
-
       // Determine the language to use for processing
-      const userSettings = getUserSettings();
-      const languageForProcessing = userSettings.autoDetectLanguage
+      const languageForProcessing = settings.autoDetectLanguage
         ? ApiService.detectUserLanguage() // Use auto-detected language for processing
         : selectedLanguage; // Use the manually selected language
 
       console.log(
-        "Processing audio for transcription with language:",
+        "Saving recording with language:",
         languageForProcessing,
         "(auto-detect:",
-        userSettings.autoDetectLanguage,
+        settings.autoDetectLanguage,
         ")"
       );
-      const processResult = await ApiService.processAudio(
-        recordingState.audioBlob,
-        languageForProcessing
-      );
 
-      const now = new Date();
-      const title = `Founder Log - ${now.toLocaleDateString()} ${now.toLocaleTimeString(
-        [],
-        { hour: "2-digit", minute: "2-digit" }
-      )}`;
-
-      const entry = await ApiService.saveEntry({
-        user_id: user.id,
-        title,
-        original_audio_url: originalAudioUrl,
-        processed_audio_url: originalAudioUrl,
-        transcription: processResult.transcription,
+      const recording = {
+        userId: user.id,
+        blob: recordingState.audioBlob,
         duration: recordingState.duration,
-      });
+        language: languageForProcessing,
+        identifySpeakers,
+        createdAt: new Date().toISOString(),
+      };
 
-      if (entry) {
-        console.log("Entry saved successfully:", entry.id);
-        setRecordingState({
-          isRecording: false,
-          isLoading: false,
-          isPlaying: false,
-          audioBlob: null,
-          duration: 0,
-          error: null,
-        });
-        onEntryCreated?.();
+      let outboxId: string | null = null;
+      try {
+        // Store locally first so nothing is lost if the upload fails
+        if (draftIdRef.current) {
+          outboxId = draftIdRef.current;
+          await updateOutboxItem(outboxId, {
+            status: "pending",
+            duration: recording.duration,
+            language: recording.language,
+            identifySpeakers: recording.identifySpeakers,
+          });
+        } else {
+          outboxId = (await addToOutbox({ ...recording, status: "pending" }))
+            .id;
+        }
+        draftIdRef.current = null;
+      } catch (error) {
+        console.warn("Offline outbox unavailable, uploading directly:", error);
+      }
+
+      if (outboxId) {
+        const isPending = async () =>
+          (await listOutbox(user.id)).some((item) => item.id === outboxId);
+
+        await syncOutbox(user.id);
+        // A sync already in flight may have started before this item was queued
+        if (navigator.onLine && (await isPending())) {
+          await syncOutbox(user.id);
+        }
+
+        if (await isPending()) {
+          setSyncNotice(
+            "Saved on this device. It will upload and transcribe automatically when you're back online."
+          );
+        }
       } else {
-        throw new Error(
-          "Failed to save recording to database. Please try again."
-        );
+        const entry = await ApiService.createEntryFromRecording({
+          ...recording,
+          id: crypto.randomUUID(),
+          status: "pending",
+          attempts: 0,
+          lastError: null,
+        });
+
+        if (!entry) {
+          throw new Error(
+            "Failed to save recording. Please check your internet connection and try again."
+          );
+        }
       }
+
+      setRecordingState({
+        isRecording: false,
+        isPaused: false,
+        isLoading: false,
+        isPlaying: false,
+        audioBlob: null,
+        duration: 0,
+        error: null,
+      });
+      onEntryCreated?.();
     } catch (error) {
       console.error("Error saving recording:", error);
       setRecordingState((prev) => ({
@@ -286,20 +475,26 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
     user,
     onEntryCreated,
     selectedLanguage,
+    identifySpeakers,
+    settings.autoDetectLanguage,
   ]);
 
   const resetRecording = useCallback(() => {
     setIsDeleting(true);
+    if (draftIdRef.current) {
+      removeFromOutbox(draftIdRef.current).catch((error) =>
+        console.error("Error discarding auto-saved recording:", error)
+      );
+      draftIdRef.current = null;
+    }
     setTimeout(() => {
       if (audioRef.current) {
         audioRef.current.pause();
       }
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+      stopTicking();
       setRecordingState({
         isRecording: false,
+        isPaused: false,
         isLoading: false,
         isPlaying: false,
         audioBlob: null,
@@ -308,7 +503,7 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
       });
       setIsDeleting(false);
     }, 300);
-  }, []);
+  }, [stopTicking]);
 
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -339,42 +534,104 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
               Capture your startup insights
             </p>
           </div>
+          {!recordingState.isRecording && !recordingState.audioBlob && (
+            <MicrophoneSelect
+              compact
+              className="hidden sm:block max-w-[14rem]"
+            />
+          )}
         </div>
 
         {/* Single-row interface */}
         {!recordingState.audioBlob ? (
-          // Recording interface - all in one row
-          <div className="flex items-center gap-4 bg-slate-700/30 rounded-lg p-3">
-            <button
-              onClick={
-                recordingState.isRecording ? stopRecording : startRecording
-              }
-              disabled={recordingState.isLoading}
-              className={`w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0 ${
-                recordingState.isRecording
-                  ? "bg-red-500 hover:bg-red-600 animate-pulse shadow-red-500/25"
-                  : "bg-blue-500 hover:bg-blue-600 shadow-blue-500/25"
-              }`}
-            >
-              {recordingState.isRecording ? (
-                <Square className="w-5 h-5 text-white" />
-              ) : (
-                <Mic className="w-5 h-5 text-white" />
+          // Recording interface - all in one row, with the input level below
+          <div className="bg-slate-700/30 rounded-lg p-3 space-y-3">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={
+                  recordingState.isRecording ? stopRecording : startRecording
+                }
+                disabled={recordingState.isLoading}
+                title={recordingState.isRecording ? "Stop (S)" : "Record"}
+                className={`w-12 h-12 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0 ${
+                  recordingState.isRecording
+                    ? recordingState.isPaused
+                      ? "bg-red-500/70 hover:bg-red-600 shadow-red-500/10"
+                      : "bg-red-500 hover:bg-red-600 animate-pulse shadow-red-500/25"
+                    : "bg-blue-500 hover:bg-blue-600 shadow-blue-500/25"
+                }`}
+              >
+                {recordingState.isRecording ? (
+                  <Square className="w-5 h-5 text-white" />
+                ) : (
+                  <Mic className="w-5 h-5 text-white" />
+                )}
+              </button>
+
+              {recordingState.isRecording && (
+                <button
+                  onClick={
+                    recordingState.isPaused ? resumeRecording : pauseRecording
+                  }
+                  title={
+                    recordingState.isPaused ? "Resume (Space)" : "Pause (Space)"
+                  }
+                  className={`w-10 h-10 rounded-full flex items-center justify-center transition-colors duration-200 flex-shrink-0 ${
+                    recordingState.isPaused
+                      ? "bg-amber-500/20 text-amber-300 hover:bg-amber-500/30"
+                      : "bg-slate-600 text-slate-200 hover:bg-slate-500"
+                  }`}
+                >
+                  {recordingState.isPaused ? (
+                    <PlayCircle className="w-5 h-5" />
+                  ) : (
+                    <PauseCircle className="w-5 h-5" />
+                  )}
+                </button>
               )}
-            </button>
 
-            <div className="flex-1 flex items-center justify-between">
-              <div>
-                <p className="text-white font-mono text-lg">
-                  {formatDuration(recordingState.duration)}
-                </p>
+              <div className="flex-1 flex items-center justify-between">
+                <div>
+                  <p
+                    className={`font-mono text-lg ${
+                      recordingState.isPaused
+                        ? "text-amber-300 animate-pulse"
+                        : "text-white"
+                    }`}
+                  >
+                    {formatDuration(recordingState.duration)}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p
+                    className={`text-sm ${
+                      recordingState.isPaused
+                        ? "text-amber-300"
+                        : "text-slate-400"
+                    }`}
+                  >
+                    {recordingState.isPaused
+                      ? "Paused"
+                      : recordingState.isRecording
+                      ? "Recording... Tap to stop"
+                      : "Tap to start recording"}
+                  </p>
+                  {recordingState.isRecording && (
+                    <p className="hidden sm:block text-xs text-slate-500">
+                      Space to {recordingState.isPaused ? "resume" : "pause"}, S
+                      to stop
+                    </p>
+                  )}
+                </div>
               </div>
-              <p className="text-slate-400 text-sm">
-                {recordingState.isRecording
-                  ? "Recording... Tap to stop"
-                  : "Tap to start recording"}
-              </p>
             </div>
+
+            {recordingState.isRecording && stream && (
+              <RecordingMeter
+                stream={stream}
+                isPaused={recordingState.isPaused}
+              />
+            )}
           </div>
         ) : (
           // Save interface - compact and inline
@@ -412,8 +669,21 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
                   </div>
                 </div>
 
-                {/* Language selection inline */}
+                {/* Speaker and language selection inline */}
                 <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setIdentifySpeakers(!identifySpeakers)}
+                    disabled={recordingState.isLoading || isDeleting}
+                    title="Label who is speaking in the transcript"
+                    className={`flex items-center space-x-1 px-2 py-1 rounded text-xs border transition-colors duration-200 ${
+                      identifySpeakers
+                        ? "bg-blue-500/20 border-blue-500/50 text-blue-300"
+                        : "bg-slate-600 border-slate-500 text-slate-300 hover:text-white"
+                    }`}
+                  >
+                    <Users className="w-3.5 h-3.5" />
+                    <span>Speakers</span>
+                  </button>
                   <Globe className="w-4 h-4 text-slate-400" />
                   <select
                     value={selectedLanguage}
@@ -464,6 +734,16 @@ export const Recorder: React.FC<RecorderProps> = ({ onEntryCreated }) => {
           </div>
         )}
 
+        {/* Offline sync notice */}
+        {syncNotice && (
+          <div className="mt-3 bg-blue-500/10 border border-blue-500/20 rounded-lg p-3">
+            <div className="flex items-start space-x-2">
+              <CloudOff className="w-4 h-4 text-blue-400 flex-shrink-0 mt-0.5" />
+              <p className="text-blue-300 text-xs">{syncNotice}</p>
+            </div>
+          </div>
+        )}
+
         {/* Error Message */}
         {recordingState.error && (
           <div className="mt-3 bg-red-500/10 border border-red-500/20 rounded-lg p-3">
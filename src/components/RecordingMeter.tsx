@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from "react";
+import { MicOff } from "lucide-react";
+import { readInputLevel } from "../utils/waveform";
+
+/**
+ * Live input level meter and scrolling waveform for the recording microphone,
+ * with a warning when the input stays silent
+ */
+
+interface RecordingMeterProps {
+  stream: MediaStream;
+  isPaused: boolean;
+}
+
+// RMS below this is treated as silence (a muted or disconnected microphone)
+const SILENCE_LEVEL = 0.005;
+const SILENCE_WARNING_MS = 4000;
+// The waveform moves one bar per interval
+const BAR_INTERVAL_MS = 80;
+const BAR_WIDTH = 3;
+const BAR_GAP = 2;
+
+// Speech rarely goes above a quarter of full scale
+const displayLevel = (level: number) => Math.min(1, level * 4);
+
+export const RecordingMeter: React.FC<RecordingMeterProps> = ({
+  stream,
+  isPaused,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const meterRef = useRef<HTMLDivElement | null>(null);
+  const isPausedRef = useRef(isPaused);
+  const [isSilent, setIsSilent] = useState(false);
+
+  useEffect(() => {
+    isPausedRef.current = isPaused;
+  }, [isPaused]);
+
+  useEffect(() => {
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    const bars: number[] = [];
+    let lastBarAt = 0;
+    let barLevel = 0;
+    let quietSince = performance.now();
+    let frame = 0;
+
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const canvasContext = canvas?.getContext("2d");
+      if (!canvas || !canvasContext) return;
+
+      const ratio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth * ratio;
+      const height = canvas.clientHeight * ratio;
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      canvasContext.clearRect(0, 0, width, height);
+      canvasContext.fillStyle = isPausedRef.current ? "#fcd34d" : "#60a5fa";
+      const step = (BAR_WIDTH + BAR_GAP) * ratio;
+      // Newest bar on the right
+      bars.slice(-Math.ceil(width / step)).forEach((level, index, visible) => {
+        const barHeight = Math.max(ratio, level * height);
+        canvasContext.fillRect(
+          width - (visible.length - index) * step,
+          (height - barHeight) / 2,
+          BAR_WIDTH * ratio,
+          barHeight
+        );
+      });
+    };
+
+    const tick = (now: number) => {
+      frame = requestAnimationFrame(tick);
+
+      // The waveform stands still and the meter drops while paused
+      const paused = isPausedRef.current;
+      const level = paused ? 0 : readInputLevel(analyser, samples);
+      if (meterRef.current) {
+        meterRef.current.style.width = `${displayLevel(level) * 100}%`;
+      }
+
+      if (paused || level >= SILENCE_LEVEL) {
+        quietSince = now;
+        setIsSilent(false);
+      } else if (now - quietSince > SILENCE_WARNING_MS) {
+        setIsSilent(true);
+      }
+
+      if (paused) return;
+      barLevel = Math.max(barLevel, displayLevel(level));
+      if (now - lastBarAt >= BAR_INTERVAL_MS) {
+        bars.push(barLevel);
+        if (bars.length > 1000) bars.splice(0, bars.length - 1000);
+        barLevel = 0;
+        lastBarAt = now;
+        draw();
+      }
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [stream]);
+
+  return (
+    <div className="space-y-2">
+      <canvas ref={canvasRef} className="w-full h-10" />
+      <div className="h-1.5 bg-slate-600/50 rounded-full overflow-hidden">
+        <div
+          ref={meterRef}
+          className="h-full bg-gradient-to-r from-green-400 via-green-400 to-amber-400 rounded-full transition-[width] duration-75"
+          style={{ width: "0%" }}
+        />
+      </div>
+      {isSilent && (
+        <div className="flex items-center space-x-2 text-amber-300 text-xs">
+          <MicOff className="w-3.5 h-3.5 flex-shrink-0" />
+          <span>
+            No sound from your microphone. Check that it is connected and not
+            muted.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordingMeter;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { History, Loader2, RotateCcw, X } from "lucide-react";
+import { ApiService } from "../services/api";
+import type { EntryRevision } from "../types";
+
+/**
+ * Modal listing previous titles and transcripts of an entry, with restore actions
+ */
+
+interface RevisionHistoryModalProps {
+  isOpen: boolean;
+  entryId: string;
+  onRestore: (revision: EntryRevision) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: { [key: string]: string } = {
+  auto: "Automatic",
+  generated: "Generated",
+  asr: "Transcription",
+  manual: "Edited",
+};
+
+export const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({
+  isOpen,
+  entryId,
+  onRestore,
+  onClose,
+}) => {
+  const [field, setField] = useState<EntryRevision["field"]>("transcription");
+  const [revisions, setRevisions] = useState<EntryRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    ApiService.fetchEntryRevisions(entryId).then((data) => {
+      if (cancelled) return;
+      setRevisions(data);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, entryId]);
+
+  if (!isOpen) return null;
+
+  const fieldRevisions = revisions.filter(
+    (revision) => revision.field === field
+  );
+
+  const handleRestore = async (revision: EntryRevision) => {
+    setRestoringId(revision.id);
+    const restored = await onRestore(revision);
+    setRestoringId(null);
+    if (restored) onClose();
+  };
+
+  const formatTimestamp = (dateString: string): string =>
+    new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-slate-800 rounded-2xl max-w-lg w-full max-h-[80vh] flex flex-col border border-slate-700/50 shadow-2xl">
+        <div className="flex items-center justify-between p-6 pb-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-blue-500/20 rounded-full flex items-center justify-center">
+              <History className="w-5 h-5 text-blue-400" />
+            </div>
+            <h3 className="text-lg font-semibold text-white">
+              Version History
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-slate-400 hover:text-white hover:bg-slate-700/50 transition-colors duration-200"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex space-x-2 px-6 pb-4">
+          {(["transcription", "title"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setField(option)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                field === option
+                  ? "bg-blue-500 text-white"
+                  : "bg-slate-700/50 text-slate-400 hover:text-white"
+              }`}
+            >
+              {option === "transcription" ? "Transcript" : "Title"}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-y-auto px-6 pb-6 space-y-3">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-blue-400" />
+            </div>
+          ) : fieldRevisions.length === 0 ? (
+            <p className="text-slate-400 text-sm text-center py-8">
+              No previous versions yet
+            </p>
+          ) : (
+            fieldRevisions.map((revision, index) => (
+              <div
+                key={revision.id}
+                className="bg-slate-900/50 rounded-lg p-3 space-y-2"
+              >
+                <div className="flex items-center justify-between gap-3 text-xs text-slate-400">
+                  <span>
+                    {formatTimestamp(revision.created_at)} ·{" "}
+                    {SOURCE_LABELS[revision.source] || revision.source}
+                  </span>
+                  {index === 0 ? (
+                    <span className="text-blue-400 font-medium">Current</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoringId !== null}
+                      className="flex items-center space-x-1 text-blue-400 hover:text-blue-300 disabled:opacity-50 transition-colors duration-200"
+                    >
+                      {restoringId === revision.id ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : (
+                        <RotateCcw className="w-3 h-3" />
+                      )}
+                      <span>Restore</span>
+                    </button>
+                  )}
+                </div>
+                <p className="text-slate-300 text-sm leading-relaxed whitespace-pre-wrap break-words">
+                  {revision.content || (
+                    <span className="italic text-slate-500">Empty</span>
+                  )}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default RevisionHistoryModal;
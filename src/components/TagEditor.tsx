@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Plus, X, Loader2 } from "lucide-react";
+import type { Tag } from "../types";
+
+/**
+ * Tag chips for an entry with a picker to add existing or new tags
+ */
+
+interface TagEditorProps {
+  tags: Tag[];
+  allTags: Tag[];
+  disabled?: boolean;
+  onAdd: (tag: Tag) => Promise<void>;
+  onRemove: (tag: Tag) => Promise<void>;
+  onCreate: (name: string) => Promise<Tag | null>;
+  onPickerOpenChange?: (isOpen: boolean) => void;
+}
+
+export const TagEditor: React.FC<TagEditorProps> = ({
+  tags,
+  allTags,
+  disabled = false,
+  onAdd,
+  onRemove,
+  onCreate,
+  onPickerOpenChange,
+}) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const pickerRef = useRef<HTMLDivElement | null>(null);
+
+  // Let the parent lift its stacking order while the picker overlaps siblings
+  useEffect(() => {
+    onPickerOpenChange?.(isPickerOpen);
+  }, [isPickerOpen, onPickerOpenChange]);
+
+  // Close the picker when clicking elsewhere
+  useEffect(() => {
+    if (!isPickerOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!pickerRef.current?.contains(event.target as Node)) {
+        setIsPickerOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isPickerOpen]);
+
+  const name = query.trim();
+  const availableTags = allTags.filter(
+    (tag) =>
+      !tags.some((entryTag) => entryTag.id === tag.id) &&
+      tag.name.toLowerCase().includes(name.toLowerCase())
+  );
+  const canCreate =
+    name.length > 0 &&
+    !allTags.some((tag) => tag.name.toLowerCase() === name.toLowerCase());
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const addTag = (tag: Tag) =>
+    run(async () => {
+      await onAdd(tag);
+      setQuery("");
+      setIsPickerOpen(false);
+    });
+
+  const createTag = () =>
+    run(async () => {
+      const tag = await onCreate(name);
+      if (tag) {
+        await onAdd(tag);
+        setQuery("");
+        setIsPickerOpen(false);
+      }
+    });
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === "Enter") {
+      if (availableTags.length > 0 && !canCreate) {
+        addTag(availableTags[0]);
+      } else if (canCreate) {
+        createTag();
+      }
+    } else if (event.key === "Escape") {
+      setIsPickerOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tags.map((tag) => (
+        <span
+          key={tag.id}
+          className="flex items-center space-x-1 pl-2.5 pr-1 py-0.5 bg-blue-500/15 text-blue-300 rounded-full text-xs font-medium"
+        >
+          <span>{tag.name}</span>
+          <button
+            onClick={() => run(() => onRemove(tag))}
+            disabled={disabled || isBusy}
+            className="p-0.5 rounded-full hover:bg-blue-500/20 hover:text-blue-200 transition-colors duration-200"
+            aria-label={`Remove tag ${tag.name}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+
+      <div ref={pickerRef} className="relative">
+        <button
+          onClick={() => setIsPickerOpen(!isPickerOpen)}
+          disabled={disabled || isBusy}
+          className="flex items-center space-x-1 px-2 py-0.5 border border-dashed border-slate-600 text-slate-400 hover:text-white hover:border-slate-500 rounded-full text-xs transition-colors duration-200"
+        >
+          {isBusy ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : (
+            <Plus className="w-3 h-3" />
+          )}
+          <span>Tag</span>
+        </button>
+
+        {isPickerOpen && (
+          <div className="absolute left-0 top-8 w-56 bg-slate-800 border border-slate-700/50 rounded-lg shadow-2xl z-10 p-2 space-y-1">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Add a tag..."
+              autoFocus
+              className="w-full px-2 py-1.5 bg-slate-900/50 border border-slate-700/50 rounded text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="max-h-48 overflow-y-auto">
+              {availableTags.map((tag) => (
+                <button
+                  key={tag.id}
+                  onClick={() => addTag(tag)}
+                  disabled={isBusy}
+                  className="w-full px-2 py-1.5 text-left text-sm text-slate-300 hover:text-white hover:bg-slate-700/50 rounded transition-colors duration-200"
+                >
+                  {tag.name}
+                </button>
+              ))}
+              {canCreate && (
+                <button
+                  onClick={createTag}
+                  disabled={isBusy}
+                  className="w-full px-2 py-1.5 text-left text-sm text-blue-400 hover:text-blue-300 hover:bg-slate-700/50 rounded transition-colors duration-200"
+                >
+                  Create "{name}"
+                </button>
+              )}
+              {availableTags.length === 0 && !canCreate && (
+                <p className="px-2 py-1.5 text-slate-500 text-sm">
+                  Type to create a tag
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagEditor;
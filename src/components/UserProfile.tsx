@@ -1,7 +1,14 @@
 import React, { useState, useEffect, useRef } from "react";
 import { createPortal } from "react-dom";
 import { useNavigate } from "react-router";
-import { LogOut, Settings, HelpCircle, ChevronDown } from "lucide-react";
+import {
+  LogOut,
+  Settings,
+  HelpCircle,
+  ChevronDown,
+  FileText,
+  Trash2,
+} from "lucide-react";
 import { useAuth } from "../context/AuthContext";
 
 /**
@@ -129,6 +136,28 @@ export const UserProfile: React.FC = () => {
 
           {/* Menu items */}
           <div className="py-1">
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                navigate("/digests");
+              }}
+              className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:text-white hover:bg-slate-700/50 transition-colors duration-200 flex items-center space-x-3"
+            >
+              <FileText className="w-4 h-4" />
+              <span>Digests</span>
+            </button>
+
+            <button
+              onClick={() => {
+                setIsOpen(false);
+                navigate("/trash");
+              }}
+              className="w-full px-4 py-2 text-left text-sm text-slate-300 hover:text-white hover:bg-slate-700/50 transition-colors duration-200 flex items-center space-x-3"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Trash</span>
+            </button>
+
             <button
               onClick={() => {
                 setIsOpen(false);
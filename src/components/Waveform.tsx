@@ -0,0 +1,50 @@
+import React from "react";
+
+/**
+ * Static waveform of a saved recording; the played part is highlighted and
+ * clicking a point seeks to it
+ */
+
+interface WaveformProps {
+  peaks: number[];
+  // Played fraction of the recording, 0 to 1
+  progress: number;
+  onSeek?: (fraction: number) => void;
+  disabled?: boolean;
+}
+
+export const Waveform: React.FC<WaveformProps> = ({
+  peaks,
+  progress,
+  onSeek,
+  disabled = false,
+}) => {
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onSeek || disabled) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width)));
+  };
+
+  return (
+    <div
+      onClick={handleClick}
+      className={`flex items-center gap-px h-10 ${
+        onSeek && !disabled ? "cursor-pointer" : ""
+      }`}
+    >
+      {peaks.map((peak, index) => (
+        <div
+          key={index}
+          className={`flex-1 rounded-full transition-colors duration-150 ${
+            (index + 0.5) / peaks.length <= progress
+              ? "bg-blue-400"
+              : "bg-slate-600"
+          }`}
+          style={{ height: `${Math.max(6, peak * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default Waveform;
@@ -0,0 +1,92 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { useAuth } from "./AuthContext";
+import { ApiService } from "../services/api";
+import {
+  DEFAULT_SETTINGS,
+  cacheSettings,
+  fromSettingsRecord,
+  getCachedSettings,
+  loadUserSettings,
+  saveUserSettings,
+} from "../services/settings";
+import type { SettingsContextType, UserSettings } from "../types";
+
+/**
+ * Settings context keeping the signed-in user's settings in sync across devices
+ */
+
+const SettingsContext = createContext<SettingsContextType | undefined>(
+  undefined
+);
+
+// eslint-disable-next-line react-refresh/only-export-components
+export const useSettings = (): SettingsContextType => {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error("useSettings must be used within a SettingsProvider");
+  }
+  return context;
+};
+
+interface SettingsProviderProps {
+  children: React.ReactNode;
+}
+
+export const SettingsProvider: React.FC<SettingsProviderProps> = ({
+  children,
+}) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setSettings(DEFAULT_SETTINGS);
+      setLoading(false);
+      return;
+    }
+
+    // Start with this device's copy while the synced one loads
+    const cached = getCachedSettings(userId);
+    setSettings(cached ?? DEFAULT_SETTINGS);
+    setLoading(!cached);
+
+    let cancelled = false;
+    loadUserSettings(userId).then((loaded) => {
+      if (cancelled) return;
+      setSettings(loaded);
+      setLoading(false);
+    });
+
+    // Changes saved on other devices
+    const unsubscribe = ApiService.subscribeToUserSettings(userId, (record) => {
+      const updated = fromSettingsRecord(record);
+      cacheSettings(userId, updated);
+      setSettings(updated);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const updateSettings = async (updated: UserSettings): Promise<boolean> => {
+    setSettings(updated);
+    if (!userId) return false;
+    return saveUserSettings(userId, updated);
+  };
+
+  const value: SettingsContextType = {
+    settings,
+    loading,
+    updateSettings,
+  };
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
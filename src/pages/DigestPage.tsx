@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from "react";
+import { Navigate, useNavigate, useParams } from "react-router";
+import {
+  ArrowLeft,
+  FileText,
+  Download,
+  Printer,
+  RefreshCw,
+  Loader2,
+  AlertCircle,
+  ListChecks,
+  Hash,
+  Mic,
+  Clock,
+} from "lucide-react";
+import { useAuth } from "../context/AuthContext";
+import { ApiService } from "../services/api";
+import {
+  formatPeriodLabel,
+  formatRecordingTime,
+  toDigestMarkdown,
+} from "../utils/digests";
+import { downloadTextFile } from "../utils/download";
+import type { Digest } from "../types";
+
+/**
+ * Report page of a stored digest with Markdown and PDF (print) downloads
+ */
+
+export const DigestPage: React.FC = () => {
+  const { user, loading } = useAuth();
+  const { digestId } = useParams();
+  const navigate = useNavigate();
+  const [digest, setDigest] = useState<Digest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  useEffect(() => {
+    if (!user || !digestId) return;
+
+    setIsLoading(true);
+    ApiService.fetchDigest(digestId).then((data) => {
+      setDigest(data);
+      setIsLoading(false);
+    });
+  }, [user, digestId]);
+
+  if (loading) return null;
+  if (!user) return <Navigate to="/login" replace />;
+
+  const regenerate = async () => {
+    if (!digest) return;
+    setIsRegenerating(true);
+    await ApiService.generateDigest(digest.period, {
+      start: new Date(digest.period_start),
+      end: new Date(digest.period_end),
+    });
+    // Failures are recorded on the digest, so refetch either way
+    setDigest(await ApiService.fetchDigest(digest.id));
+    setIsRegenerating(false);
+  };
+
+  const formatDay = (value: string | number) =>
+    new Date(value).toLocaleDateString([], {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+
+  const label = digest
+    ? formatPeriodLabel(digest.period, digest.period_start)
+    : "Digest";
+
+  const downloadMarkdown = () => {
+    if (!digest) return;
+    downloadTextFile(
+      `digest-${digest.period}-${digest.period_start.slice(0, 10)}.md`,
+      toDigestMarkdown(digest)
+    );
+  };
+
+  // The browser's print dialog saves the print layout below as a PDF
+  const downloadPdf = () => window.print();
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white print:bg-white print:text-black">
+      <div className="max-w-4xl mx-auto px-4 py-8 print:p-0">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center space-x-3 mb-2">
+            <button
+              onClick={() => navigate("/digests")}
+              className="p-2 hover:bg-slate-800 rounded-lg transition-colors print:hidden"
+              title="All digests"
+            >
+              <ArrowLeft className="w-6 h-6 text-slate-400" />
+            </button>
+            <FileText className="w-8 h-8 text-blue-400 print:hidden" />
+            <h1 className="text-3xl font-bold">{label}</h1>
+          </div>
+          {digest && (
+            <p className="text-slate-400 print:text-slate-600">
+              {formatDay(digest.period_start)} -{" "}
+              {formatDay(new Date(digest.period_end).getTime() - 1)}
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-blue-400" />
+          </div>
+        ) : !digest ? (
+          <div className="bg-slate-800 rounded-lg p-6 text-slate-400">
+            This digest does not exist or was deleted.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Actions */}
+            <div className="flex flex-wrap gap-2 print:hidden">
+              <button
+                onClick={downloadMarkdown}
+                className="flex items-center space-x-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm font-medium transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                <span>Markdown</span>
+              </button>
+              <button
+                onClick={downloadPdf}
+                className="flex items-center space-x-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm font-medium transition-colors"
+              >
+                <Printer className="w-4 h-4" />
+                <span>PDF</span>
+              </button>
+              <button
+                onClick={regenerate}
+                disabled={isRegenerating}
+                className="flex items-center space-x-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+              >
+                {isRegenerating ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="w-4 h-4" />
+                )}
+                <span>Regenerate</span>
+              </button>
+            </div>
+
+            {digest.status === "failed" && (
+              <div className="flex items-start space-x-2 bg-red-500/10 border border-red-500/20 rounded-lg p-4 print:hidden">
+                <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                <p className="text-red-300 text-sm">
+                  The summary could not be written
+                  {digest.error ? `: ${digest.error}` : ""}. The numbers below
+                  are up to date; regenerate to try again.
+                </p>
+              </div>
+            )}
+
+            {/* Stats */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-slate-800 rounded-lg p-4 print:border print:border-slate-300 print:bg-white">
+                <div className="flex items-center space-x-2 text-slate-400 text-sm">
+                  <Mic className="w-4 h-4" />
+                  <span>Entries</span>
+                </div>
+                <div className="text-2xl font-bold mt-1">
+                  {digest.entry_count}
+                </div>
+              </div>
+              <div className="bg-slate-800 rounded-lg p-4 print:border print:border-slate-300 print:bg-white">
+                <div className="flex items-center space-x-2 text-slate-400 text-sm">
+                  <Clock className="w-4 h-4" />
+                  <span>Recording time</span>
+                </div>
+                <div className="text-2xl font-bold mt-1">
+                  {formatRecordingTime(digest.total_duration)}
+                </div>
+              </div>
+            </div>
+
+            {digest.entry_count === 0 && (
+              <p className="text-slate-400">
+                No entries were recorded in this period.
+              </p>
+            )}
+
+            {digest.summary && (
+              <section className="bg-slate-800 rounded-lg p-6 print:bg-white print:p-0">
+                <h2 className="text-xl font-semibold mb-3">Summary</h2>
+                <p className="text-slate-300 leading-relaxed whitespace-pre-line print:text-black">
+                  {digest.summary}
+                </p>
+              </section>
+            )}
+
+            {(digest.themes.length > 0 || digest.tag_counts.length > 0) && (
+              <section className="bg-slate-800 rounded-lg p-6 print:bg-white print:p-0">
+                <h2 className="text-xl font-semibold mb-3">Recurring Themes</h2>
+                <div className="flex flex-wrap gap-2">
+                  {digest.themes.map((theme) => (
+                    <span
+                      key={theme}
+                      className="px-3 py-1 bg-blue-500/15 text-blue-300 rounded-full text-sm print:border print:border-slate-300 print:text-black"
+                    >
+                      {theme}
+                    </span>
+                  ))}
+                  {digest.tag_counts.map((tag) => (
+                    <span
+                      key={`tag-${tag.name}`}
+                      className="flex items-center space-x-1 px-3 py-1 bg-slate-700/50 text-slate-300 rounded-full text-sm print:border print:border-slate-300 print:text-black"
+                    >
+                      <Hash className="w-3 h-3" />
+                      <span>
+                        {tag.name} ({tag.count})
+                      </span>
+                    </span>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {digest.action_items.length > 0 && (
+              <section className="bg-slate-800 rounded-lg p-6 print:bg-white print:p-0">
+                <h2 className="flex items-center space-x-2 text-xl font-semibold mb-3">
+                  <ListChecks className="w-5 h-5 text-blue-400 print:hidden" />
+                  <span>Action Items</span>
+                </h2>
+                <ul className="list-disc pl-5 space-y-1 text-slate-300 print:text-black">
+                  {digest.action_items.map((item, index) => (
+                    <li key={index}>{item.text}</li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {digest.highlights.length > 0 && (
+              <section className="bg-slate-800 rounded-lg p-6 print:bg-white print:p-0">
+                <h2 className="text-xl font-semibold mb-3">Entries</h2>
+                <div className="space-y-4">
+                  {digest.highlights.map((highlight) => (
+                    <div
+                      key={highlight.entry_id}
+                      className="break-inside-avoid"
+                    >
+                      <div className="text-sm text-slate-400 print:text-slate-600">
+                        {formatDay(highlight.created_at)}
+                      </div>
+                      <div className="font-medium">{highlight.title}</div>
+                      {highlight.summary && (
+                        <p className="text-sm text-slate-300 mt-1 print:text-black">
+                          {highlight.summary}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DigestPage;
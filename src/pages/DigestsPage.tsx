@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from "react";
+import { Navigate, useNavigate } from "react-router";
+import {
+  ArrowLeft,
+  FileText,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Sparkles,
+  Trash2,
+  AlertCircle,
+} from "lucide-react";
+import { useAuth } from "../context/AuthContext";
+import { ApiService } from "../services/api";
+import { ConfirmationModal } from "../components/ConfirmationModal";
+import {
+  formatPeriodLabel,
+  formatRecordingTime,
+  getPeriodBounds,
+} from "../utils/digests";
+import type { Digest, DigestPeriod } from "../types";
+
+/**
+ * Weekly and monthly digests: generate a period and revisit past reports
+ */
+
+export const DigestsPage: React.FC = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [digests, setDigests] = useState<Digest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [period, setPeriod] = useState<DigestPeriod>("week");
+  const [offset, setOffset] = useState(0);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    ApiService.fetchDigests(user.id).then((data) => {
+      setDigests(data);
+      setIsLoading(false);
+    });
+  }, [user]);
+
+  if (loading) return null;
+  if (!user) return <Navigate to="/login" replace />;
+
+  const bounds = getPeriodBounds(period, new Date(), offset);
+  const existingDigest = digests.find(
+    (digest) =>
+      digest.period === period &&
+      new Date(digest.period_start).getTime() === bounds.start.getTime()
+  );
+
+  const changePeriod = (nextPeriod: DigestPeriod) => {
+    setPeriod(nextPeriod);
+    setOffset(0);
+  };
+
+  const generateDigest = async () => {
+    setIsGenerating(true);
+    setError(null);
+
+    const digest = await ApiService.generateDigest(period, bounds);
+    if (digest) {
+      navigate(`/digests/${digest.id}`);
+      return;
+    }
+
+    // Failures are stored with their error, so show what was recorded
+    setDigests(await ApiService.fetchDigests(user.id));
+    setError("Generating the digest failed. Please try again.");
+    setIsGenerating(false);
+  };
+
+  const deleteDigest = async (digestId: string) => {
+    setDeleteId(null);
+    if (await ApiService.deleteDigest(digestId)) {
+      setDigests((prev) => prev.filter((digest) => digest.id !== digestId));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center space-x-3 mb-2">
+            <button
+              onClick={() => navigate("/app")}
+              className="p-2 hover:bg-slate-800 rounded-lg transition-colors"
+              title="Back to logs"
+            >
+              <ArrowLeft className="w-6 h-6 text-slate-400" />
+            </button>
+            <FileText className="w-8 h-8 text-blue-400" />
+            <h1 className="text-3xl font-bold">Digests</h1>
+          </div>
+          <p className="text-slate-400">
+            Weekly and monthly reports of your logs, ready for investor updates
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          {/* Generate Section */}
+          <div className="bg-slate-800 rounded-lg p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex bg-slate-700/50 rounded-lg p-1">
+                {(["week", "month"] as DigestPeriod[]).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => changePeriod(value)}
+                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                      period === value
+                        ? "bg-blue-600 text-white"
+                        : "text-slate-400 hover:text-white"
+                    }`}
+                  >
+                    {value === "week" ? "Weekly" : "Monthly"}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setOffset(offset - 1)}
+                  className="p-2 hover:bg-slate-700 rounded-lg transition-colors"
+                  title={`Previous ${period}`}
+                >
+                  <ChevronLeft className="w-5 h-5 text-slate-400" />
+                </button>
+                <span className="min-w-44 text-center font-medium">
+                  {formatPeriodLabel(period, bounds.start)}
+                </span>
+                <button
+                  onClick={() => setOffset(offset + 1)}
+                  disabled={offset >= 0}
+                  className="p-2 hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title={`Next ${period}`}
+                >
+                  <ChevronRight className="w-5 h-5 text-slate-400" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <p className="text-sm text-slate-400">
+                {existingDigest
+                  ? "A digest exists for this period. Regenerate it to include new entries."
+                  : offset === 0
+                  ? "This period is still in progress; you can regenerate the digest later."
+                  : "No digest for this period yet."}
+              </p>
+              <div className="flex items-center space-x-2">
+                {existingDigest && (
+                  <button
+                    onClick={() => navigate(`/digests/${existingDigest.id}`)}
+                    className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm font-medium transition-colors"
+                  >
+                    Open
+                  </button>
+                )}
+                <button
+                  onClick={generateDigest}
+                  disabled={isGenerating}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+                >
+                  {isGenerating ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Sparkles className="w-4 h-4" />
+                  )}
+                  <span>{existingDigest ? "Regenerate" : "Generate"}</span>
+                </button>
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-center space-x-2 text-red-300 text-sm">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+          </div>
+
+          {/* Past Digests */}
+          <div className="bg-slate-800 rounded-lg p-6">
+            <h2 className="text-xl font-semibold mb-4">Past Digests</h2>
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+              </div>
+            ) : digests.length === 0 ? (
+              <p className="text-slate-400 text-sm">
+                No digests yet. Generate one for a week or month above.
+              </p>
+            ) : (
+              <div className="divide-y divide-slate-700/50">
+                {digests.map((digest) => (
+                  <div
+                    key={digest.id}
+                    className="flex items-center justify-between gap-3 py-3"
+                  >
+                    <button
+                      onClick={() => navigate(`/digests/${digest.id}`)}
+                      className="flex-1 min-w-0 text-left group"
+                    >
+                      <div className="font-medium group-hover:text-blue-300 transition-colors truncate">
+                        {formatPeriodLabel(digest.period, digest.period_start)}
+                      </div>
+                      <div className="text-sm text-slate-400">
+                        {digest.entry_count}{" "}
+                        {digest.entry_count === 1 ? "entry" : "entries"} ·{" "}
+                        {formatRecordingTime(digest.total_duration)}
+                        {digest.status === "failed" && (
+                          <span className="text-red-400"> · Failed</span>
+                        )}
+                        {digest.status === "processing" && (
+                          <span className="text-blue-300"> · Generating</span>
+                        )}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => setDeleteId(digest.id)}
+                      className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                      title="Delete digest"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!deleteId}
+        onConfirm={() => deleteDigest(deleteId!)}
+        onCancel={() => setDeleteId(null)}
+        title="Delete Digest"
+        message="This deletes the stored report. Your entries are not affected and you can generate the digest again."
+        confirmText="Delete"
+        cancelText="Cancel"
+        confirmButtonClass="bg-red-500 hover:bg-red-600"
+        icon={Trash2}
+        iconClass="text-red-400"
+        iconBgClass="bg-red-500/20"
+      />
+    </div>
+  );
+};
+
+export default DigestsPage;
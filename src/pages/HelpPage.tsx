@@ -18,6 +18,11 @@ export const HelpPage: React.FC = () => {
       answer:
         "Click the microphone button on the main app page. Make sure your browser has microphone permissions enabled.",
     },
+    {
+      question: "Can I pause a recording?",
+      answer:
+        "Yes. While recording, click the pause button or press Space to pause, and again to resume. Paused time is not recorded or counted. Press S to stop.",
+    },
     {
       question: "What languages are supported?",
       answer:
@@ -36,7 +41,7 @@ export const HelpPage: React.FC = () => {
     {
       question: "How do I delete a recording?",
       answer:
-        "In your history list, click the delete button (trash icon) next to any recording you want to remove.",
+        "In your history list, choose Move to Trash in the menu of any recording you want to remove. Trashed recordings can be restored from Trash in the profile menu until they are permanently deleted after the retention period. To remove everything, use Delete All Recordings or Delete Account under Privacy & Security in Settings.",
     },
     {
       question: "Is my data secure?",
@@ -46,12 +51,12 @@ export const HelpPage: React.FC = () => {
     {
       question: "Can I download my recordings?",
       answer:
-        "Yes, you can download both the audio files and transcriptions from your history list.",
+        "Yes. Use Export in an entry's menu to download it as Markdown, JSON, SRT/WebVTT subtitles or a ZIP with the audio, or Export All Data in Settings to download everything at once.",
     },
     {
       question: "What audio formats are supported?",
       answer:
-        "The app records in standard web audio formats (typically WebM or MP4) that are supported by modern browsers.",
+        "The app records in the best format your browser supports: WebM or Ogg with Opus in Chrome, Edge and Firefox, and MP4 with AAC in Safari and on iPhone and iPad. Recordings play back in any browser that supports their format.",
     },
   ];
 
@@ -226,7 +231,8 @@ export const HelpPage: React.FC = () => {
                 </h3>
                 <p className="text-slate-300 text-sm">
                   Ensure your microphone is properly connected and your browser
-                  has permission to access it.
+                  has permission to access it. Choose which microphone to use
+                  and check how it sounds with Test Microphone in Settings.
                 </p>
               </div>
 
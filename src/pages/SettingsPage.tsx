@@ -8,71 +8,180 @@ import {
   Shield,
   Trash2,
   ArrowLeft,
+  Wand2,
+  Loader2,
+  Download,
+  UserX,
+  HardDrive,
 } from "lucide-react";
 import { useAuth } from "../context/AuthContext";
+import { ApiService } from "../services/api";
+import { exportAllEntries } from "../services/export";
+import type { ExportProgress } from "../services/export";
+import { clearOutbox } from "../services/outbox";
+import { clearCachedSettings } from "../services/settings";
+import { useSettings } from "../context/SettingsContext";
+import { ConfirmationModal } from "../components/ConfirmationModal";
+import MicrophoneSelect from "../components/MicrophoneSelect";
+import MicrophoneTest from "../components/MicrophoneTest";
 import { useNavigate } from "react-router";
+import type { EntryCursor, UserSettings } from "../types";
 
 /**
  * Settings page for user preferences and app configuration
  */
 
-const SETTINGS_KEY = "janusarc-settings";
-
 export const SettingsPage: React.FC = () => {
-  const { user } = useAuth();
+  const { user, signOut } = useAuth();
+  const { settings: savedSettings, updateSettings } = useSettings();
   const navigate = useNavigate();
-  const [settings, setSettings] = useState({
-    defaultLanguage: "eng",
-    autoDetectLanguage: true,
-    notifications: true,
-    highQualityAudio: true,
-    autoSaveRecordings: true,
-  });
+  const [settings, setSettings] = useState<UserSettings>(savedSettings);
   const [hasChanges, setHasChanges] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [isGeneratingTitles, setIsGeneratingTitles] = useState(false);
+  const [titlesMessage, setTitlesMessage] = useState<string | null>(null);
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(
+    null
+  );
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [confirmDeletion, setConfirmDeletion] = useState<
+    "recordings" | "account" | null
+  >(null);
+  const [isDeletingRecordings, setIsDeletingRecordings] = useState(false);
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [deletionMessage, setDeletionMessage] = useState<string | null>(null);
+  // Microphone names appear once access is granted, so list them again then
+  const [microphoneListKey, setMicrophoneListKey] = useState(0);
 
-  // Load settings from localStorage on mount
+  // Follow changes saved on other devices until the user starts editing
   useEffect(() => {
-    const savedSettings = localStorage.getItem(SETTINGS_KEY);
-    if (savedSettings) {
-      try {
-        const parsed = JSON.parse(savedSettings);
-        setSettings(parsed);
-      } catch (error) {
-        console.error("Failed to parse saved settings:", error);
-      }
-    }
-  }, []);
+    if (!hasChanges) setSettings(savedSettings);
+  }, [savedSettings, hasChanges]);
 
-  const handleSettingChange = (key: string, value: boolean | string) => {
+  const handleSettingChange = <K extends keyof UserSettings>(
+    key: K,
+    value: UserSettings[K]
+  ) => {
     setSettings((prev) => ({
       ...prev,
       [key]: value,
     }));
     setHasChanges(true);
+    setSaveMessage(null);
+  };
+
+  const saveSettings = async () => {
+    const synced = await updateSettings(settings);
+    setHasChanges(false);
+    setSaveMessage(
+      synced
+        ? null
+        : "Saved on this device, but syncing to your other devices failed."
+    );
+  };
+
+  // Title older entries in batches until none with a placeholder title are left
+  const generateTitles = async () => {
+    setIsGeneratingTitles(true);
+    setTitlesMessage(null);
+
+    let updated = 0;
+    let notTitled = 0;
+    let cursor: EntryCursor | null = null;
+    for (;;) {
+      const result = await ApiService.generateEntryTitles(cursor);
+      if (!result) {
+        setTitlesMessage("Generating titles failed. Please try again.");
+        break;
+      }
+
+      updated += result.updated;
+      notTitled += result.skipped + result.failed;
+      cursor = result.cursor;
+      if (result.remaining === 0 || !cursor) {
+        const summary: string[] = [];
+        if (updated > 0) {
+          summary.push(
+            `Generated titles for ${updated} ${
+              updated === 1 ? "entry" : "entries"
+            }.`
+          );
+        }
+        if (notTitled > 0) {
+          summary.push(
+            `Could not generate titles for ${notTitled} ${
+              notTitled === 1 ? "entry" : "entries"
+            }.`
+          );
+        }
+        setTitlesMessage(
+          summary.length > 0
+            ? summary.join(" ")
+            : "All transcribed entries already have titles."
+        );
+        break;
+      }
+      setTitlesMessage(`Generated ${updated} titles so far...`);
+    }
+
+    setIsGeneratingTitles(false);
   };
 
-  const saveSettings = () => {
+  const exportEverything = async () => {
+    if (!user) return;
+    setExportMessage(null);
+    setExportProgress({ done: 0, total: 0 });
+
+    const exported = await exportAllEntries(user.id, setExportProgress);
+    setExportProgress(null);
+    if (!exported) {
+      setExportMessage("Export failed. Please try again.");
+    }
+  };
+
+  const deleteAllRecordings = async () => {
+    if (!user) return;
+    setConfirmDeletion(null);
+    setDeletionMessage(null);
+    setIsDeletingRecordings(true);
+
+    // Recordings still waiting on this device would otherwise be uploaded later
+    await clearOutbox(user.id);
+    const result = await ApiService.deleteAllEntries();
+    setDeletionMessage(
+      result
+        ? `Deleted ${result.entries} ${
+            result.entries === 1 ? "entry" : "entries"
+          } and ${result.files} audio ${result.files === 1 ? "file" : "files"}.`
+        : "Deleting recordings failed. Please try again."
+    );
+    setIsDeletingRecordings(false);
+  };
+
+  const deleteAccount = async () => {
+    if (!user) return;
+    setConfirmDeletion(null);
+    setDeletionMessage(null);
+    setIsDeletingAccount(true);
+
+    await clearOutbox(user.id);
+    if (!(await ApiService.deleteAccount())) {
+      setDeletionMessage("Deleting your account failed. Please try again.");
+      setIsDeletingAccount(false);
+      return;
+    }
+
+    clearCachedSettings(user.id);
     try {
-      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
-      setHasChanges(false);
-      console.log("Settings saved successfully");
+      await signOut();
     } catch (error) {
-      console.error("Failed to save settings:", error);
+      // The session belonged to the deleted user, so the server may reject it
+      console.warn("Sign out after account deletion failed:", error);
     }
+    navigate("/");
   };
 
-  const languages = [
-    { code: "eng", name: "English" },
-    { code: "spa", name: "Spanish" },
-    { code: "fra", name: "French" },
-    { code: "deu", name: "German" },
-    { code: "ita", name: "Italian" },
-    { code: "por", name: "Portuguese" },
-    { code: "rus", name: "Russian" },
-    { code: "jpn", name: "Japanese" },
-    { code: "kor", name: "Korean" },
-    { code: "zho", name: "Chinese" },
-  ];
+  const languages = ApiService.getSupportedLanguages();
 
   return (
     <div className="min-h-screen bg-slate-900 text-white">
@@ -123,13 +232,38 @@ export const SettingsPage: React.FC = () => {
             </div>
 
             <div className="space-y-6">
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <h3 className="text-sm font-medium text-white">
+                      Microphone
+                    </h3>
+                    <p className="text-sm text-slate-400">
+                      Remembered in this browser. The default microphone is used
+                      while this one is not connected
+                    </p>
+                  </div>
+                  <MicrophoneSelect
+                    refreshKey={microphoneListKey}
+                    className="max-w-full sm:max-w-[16rem]"
+                  />
+                </div>
+                <MicrophoneTest
+                  highQuality={settings.highQualityAudio}
+                  onAccessGranted={() => setMicrophoneListKey((key) => key + 1)}
+                />
+              </div>
+
               <div className="flex items-center justify-between">
                 <div>
                   <h3 className="text-sm font-medium text-white">
                     High Quality Audio
                   </h3>
                   <p className="text-sm text-slate-400">
-                    Record audio at higher quality (uses more storage)
+                    Record at 48 kHz and 128 kbps with only echo cancellation,
+                    for natural-sounding playback (uses more storage). When off,
+                    recordings use noise suppression and automatic gain tuned
+                    for speech
                   </p>
                 </div>
                 <button
@@ -159,7 +293,8 @@ export const SettingsPage: React.FC = () => {
                     Auto-save Recordings
                   </h3>
                   <p className="text-sm text-slate-400">
-                    Automatically save recordings to your history
+                    Keep recordings on this device as soon as you stop, so
+                    they reach your history even if you close the page
                   </p>
                 </div>
                 <button
@@ -250,6 +385,67 @@ export const SettingsPage: React.FC = () => {
                   </p>
                 )}
               </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3 className="text-sm font-medium text-white">
+                    Identify Speakers
+                  </h3>
+                  <p className="text-sm text-slate-400">
+                    Label who is speaking in new recordings, for conversations
+                    with your co-founders. You can change this per recording
+                  </p>
+                </div>
+                <button
+                  onClick={() =>
+                    handleSettingChange(
+                      "identifySpeakers",
+                      !settings.identifySpeakers
+                    )
+                  }
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    settings.identifySpeakers ? "bg-blue-600" : "bg-slate-600"
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      settings.identifySpeakers
+                        ? "translate-x-6"
+                        : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <h3 className="text-sm font-medium text-white">
+                    Smart Titles
+                  </h3>
+                  <p className="text-sm text-slate-400">
+                    New recordings are titled from their transcript. Title older
+                    recordings that still show their recording time; titles you
+                    edited are kept
+                  </p>
+                  {titlesMessage && (
+                    <p className="text-xs text-slate-300 mt-1">
+                      {titlesMessage}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={generateTitles}
+                  disabled={isGeneratingTitles}
+                  className="flex items-center space-x-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors flex-shrink-0"
+                >
+                  {isGeneratingTitles ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Wand2 className="w-4 h-4" />
+                  )}
+                  <span>Generate Titles</span>
+                </button>
+              </div>
             </div>
           </div>
 
@@ -299,21 +495,123 @@ export const SettingsPage: React.FC = () => {
             </div>
 
             <div className="space-y-4">
-              <button className="flex items-center space-x-3 px-4 py-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 hover:bg-red-600/20 transition-colors w-full text-left">
-                <Trash2 className="w-5 h-5" />
+              <button
+                onClick={exportEverything}
+                disabled={!!exportProgress}
+                className="flex items-center space-x-3 px-4 py-3 bg-slate-700/50 border border-slate-600/50 rounded-lg text-slate-200 hover:bg-slate-700 disabled:opacity-70 transition-colors w-full text-left"
+              >
+                {exportProgress ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Download className="w-5 h-5" />
+                )}
+                <div>
+                  <div className="font-medium">Export All Data</div>
+                  <div className="text-sm text-slate-400">
+                    {exportProgress
+                      ? exportProgress.total > 0
+                        ? `Preparing ${exportProgress.done} of ${exportProgress.total} entries...`
+                        : "Preparing export..."
+                      : exportMessage ||
+                        "Download a ZIP with every entry as Markdown, JSON and subtitles, plus the original audio"}
+                  </div>
+                </div>
+              </button>
+
+              <button
+                onClick={() => navigate("/settings/storage")}
+                className="flex items-center space-x-3 px-4 py-3 bg-slate-700/50 border border-slate-600/50 rounded-lg text-slate-200 hover:bg-slate-700 transition-colors w-full text-left"
+              >
+                <HardDrive className="w-5 h-5" />
+                <div>
+                  <div className="font-medium">Storage Check</div>
+                  <div className="text-sm text-slate-400">
+                    Find audio files without an entry and entries whose audio is
+                    missing
+                  </div>
+                </div>
+              </button>
+
+              <button
+                onClick={() => setConfirmDeletion("recordings")}
+                disabled={isDeletingRecordings || isDeletingAccount}
+                className="flex items-center space-x-3 px-4 py-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 hover:bg-red-600/20 disabled:opacity-70 transition-colors w-full text-left"
+              >
+                {isDeletingRecordings ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Trash2 className="w-5 h-5" />
+                )}
                 <div>
                   <div className="font-medium">Delete All Recordings</div>
                   <div className="text-sm text-red-400/70">
-                    Permanently delete all your recordings and transcripts
+                    {isDeletingRecordings
+                      ? "Deleting recordings..."
+                      : "Permanently delete all your recordings and transcripts"}
                   </div>
                 </div>
               </button>
+
+              <button
+                onClick={() => setConfirmDeletion("account")}
+                disabled={isDeletingRecordings || isDeletingAccount}
+                className="flex items-center space-x-3 px-4 py-3 bg-red-600/10 border border-red-600/20 rounded-lg text-red-400 hover:bg-red-600/20 disabled:opacity-70 transition-colors w-full text-left"
+              >
+                {isDeletingAccount ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <UserX className="w-5 h-5" />
+                )}
+                <div>
+                  <div className="font-medium">Delete Account</div>
+                  <div className="text-sm text-red-400/70">
+                    {isDeletingAccount
+                      ? "Deleting your account..."
+                      : "Permanently delete your account and everything in it"}
+                  </div>
+                </div>
+              </button>
+
+              {deletionMessage && (
+                <p className="text-sm text-slate-300">{deletionMessage}</p>
+              )}
             </div>
           </div>
         </div>
 
+        <ConfirmationModal
+          isOpen={confirmDeletion === "recordings"}
+          onConfirm={deleteAllRecordings}
+          onCancel={() => setConfirmDeletion(null)}
+          title="Delete All Recordings"
+          message="This will permanently delete every recording, transcript, insight and digest in your account. Recordings still waiting to upload on this device are discarded too. This action cannot be undone."
+          confirmText="Delete All"
+          confirmButtonClass="bg-red-500 hover:bg-red-600"
+          confirmationPhrase="DELETE"
+          icon={Trash2}
+          iconClass="text-red-400"
+          iconBgClass="bg-red-500/20"
+        />
+
+        <ConfirmationModal
+          isOpen={confirmDeletion === "account"}
+          onConfirm={deleteAccount}
+          onCancel={() => setConfirmDeletion(null)}
+          title="Delete Account"
+          message="This will permanently delete your account along with all recordings, transcripts, tags and digests. You will be signed out. This action cannot be undone."
+          confirmText="Delete Account"
+          confirmButtonClass="bg-red-500 hover:bg-red-600"
+          confirmationPhrase={user?.email || "DELETE"}
+          icon={UserX}
+          iconClass="text-red-400"
+          iconBgClass="bg-red-500/20"
+        />
+
         {/* Save Button */}
-        <div className="mt-8 flex justify-end">
+        <div className="mt-8 flex items-center justify-end gap-4">
+          {saveMessage && (
+            <p className="text-sm text-amber-300">{saveMessage}</p>
+          )}
           <button
             onClick={saveSettings}
             disabled={!hasChanges}
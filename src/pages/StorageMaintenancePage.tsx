@@ -0,0 +1,337 @@
+import React, { useEffect, useState } from "react";
+import { Navigate, useNavigate } from "react-router";
+import {
+  ArrowLeft,
+  HardDrive,
+  Loader2,
+  RefreshCw,
+  Wrench,
+  FileX,
+  FileQuestion,
+  Clock,
+  CheckCircle,
+  FileAudio,
+} from "lucide-react";
+import { useAuth } from "../context/AuthContext";
+import { ApiService } from "../services/api";
+import { repairStoredRecordings } from "../services/audioRepair";
+import type { ExportProgress } from "../services/export";
+import type { StorageDeletion, StorageIssue } from "../types";
+
+/**
+ * Storage maintenance: compare audio files with entries and repair mismatches
+ */
+
+const formatFileSize = (bytes: number | null) => {
+  if (bytes === null) return "";
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const fileName = (path: string) => path.split("/").pop() || path;
+
+export const StorageMaintenancePage: React.FC = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [issues, setIssues] = useState<StorageIssue[]>([]);
+  const [deletions, setDeletions] = useState<StorageDeletion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [recordingProgress, setRecordingProgress] =
+    useState<ExportProgress | null>(null);
+  const [recordingMessage, setRecordingMessage] = useState<string | null>(null);
+
+  const loadReport = async (userId: string) => {
+    const [issueData, deletionData] = await Promise.all([
+      ApiService.fetchStorageIssues(userId),
+      ApiService.fetchStorageDeletions(userId),
+    ]);
+    setIssues(issueData);
+    setDeletions(deletionData);
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadReport(user.id).then(() => setIsLoading(false));
+  }, [user]);
+
+  if (loading) return null;
+  if (!user) return <Navigate to="/login" replace />;
+
+  const orphanedFiles = issues.filter(
+    (issue) => issue.issue === "orphaned_file"
+  );
+  const missingFiles = issues.filter((issue) => issue.issue === "missing_file");
+  const lastChecked = issues[0]?.detected_at;
+
+  const checkStorage = async () => {
+    setIsChecking(true);
+    setMessage(null);
+
+    if (await ApiService.reconcileAudioStorage()) {
+      await loadReport(user.id);
+      setMessage("Check complete.");
+    } else {
+      setMessage("Checking storage failed. Please try again.");
+    }
+    setIsChecking(false);
+  };
+
+  const repairStorage = async () => {
+    setIsRepairing(true);
+    setMessage(null);
+
+    const result = await ApiService.repairAudioStorage();
+    if (result) {
+      await loadReport(user.id);
+      setMessage(
+        `Queued ${result.queued_files} orphaned ${
+          result.queued_files === 1 ? "file" : "files"
+        } for removal and detached ${result.detached_entries} missing ${
+          result.detached_entries === 1 ? "file" : "files"
+        }.`
+      );
+    } else {
+      setMessage("Repairing storage failed. Please try again.");
+    }
+    setIsRepairing(false);
+  };
+
+  const repairRecordings = async () => {
+    setRecordingMessage(null);
+    setRecordingProgress({ done: 0, total: 0 });
+
+    const result = await repairStoredRecordings(user.id, setRecordingProgress);
+    setRecordingProgress(null);
+    if (!result) {
+      setRecordingMessage("Repairing recordings failed. Please try again.");
+      return;
+    }
+
+    setRecordingMessage(
+      `Repaired ${result.repaired} ${
+        result.repaired === 1 ? "recording" : "recordings"
+      }${result.skipped > 0 ? `, ${result.skipped} already seekable` : ""}${
+        result.failed > 0 ? `, ${result.failed} failed` : ""
+      }.`
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center space-x-3 mb-2">
+            <button
+              onClick={() => navigate("/settings")}
+              className="p-2 hover:bg-slate-800 rounded-lg transition-colors"
+              title="Back to settings"
+            >
+              <ArrowLeft className="w-6 h-6 text-slate-400" />
+            </button>
+            <HardDrive className="w-8 h-8 text-blue-400" />
+            <h1 className="text-3xl font-bold">Storage</h1>
+          </div>
+          <p className="text-slate-400">
+            Check that every audio file belongs to an entry and every entry's
+            audio still exists
+          </p>
+        </div>
+
+        <div className="space-y-8">
+          {/* Check Section */}
+          <div className="bg-slate-800 rounded-lg p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <p className="text-sm text-slate-400">
+                {lastChecked
+                  ? `Last checked ${formatDate(lastChecked)}.`
+                  : "Storage is checked every night; issues found are listed below."}
+              </p>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={checkStorage}
+                  disabled={isChecking || isRepairing}
+                  className="flex items-center space-x-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+                >
+                  {isChecking ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="w-4 h-4" />
+                  )}
+                  <span>Check Now</span>
+                </button>
+                <button
+                  onClick={repairStorage}
+                  disabled={isChecking || isRepairing || issues.length === 0}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+                >
+                  {isRepairing ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Wrench className="w-4 h-4" />
+                  )}
+                  <span>Repair</span>
+                </button>
+              </div>
+            </div>
+
+            {message && <p className="text-sm text-slate-300">{message}</p>}
+          </div>
+
+          {/* Recordings Section */}
+          <div className="bg-slate-800 rounded-lg p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <div className="flex items-center space-x-3 mb-1">
+                  <FileAudio className="w-5 h-5 text-blue-400" />
+                  <h2 className="text-xl font-semibold">Seekable Recordings</h2>
+                </div>
+                <p className="text-sm text-slate-400">
+                  {recordingProgress
+                    ? recordingProgress.total > 0
+                      ? `Repairing ${recordingProgress.done} of ${recordingProgress.total} recordings...`
+                      : "Finding recordings..."
+                    : "Add a duration and seek index to older recordings so seeking in them is accurate"}
+                </p>
+              </div>
+              <button
+                onClick={repairRecordings}
+                disabled={!!recordingProgress}
+                className="flex items-center space-x-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+              >
+                {recordingProgress ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Wrench className="w-4 h-4" />
+                )}
+                <span>Repair Recordings</span>
+              </button>
+            </div>
+
+            {recordingMessage && (
+              <p className="text-sm text-slate-300">{recordingMessage}</p>
+            )}
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+            </div>
+          ) : issues.length === 0 && deletions.length === 0 ? (
+            <div className="bg-slate-800 rounded-lg p-6 flex items-center space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-400 flex-shrink-0" />
+              <p className="text-slate-300 text-sm">No storage issues found.</p>
+            </div>
+          ) : (
+            <>
+              {orphanedFiles.length > 0 && (
+                <div className="bg-slate-800 rounded-lg p-6">
+                  <div className="flex items-center space-x-3 mb-1">
+                    <FileX className="w-5 h-5 text-amber-400" />
+                    <h2 className="text-xl font-semibold">Orphaned Files</h2>
+                  </div>
+                  <p className="text-sm text-slate-400 mb-4">
+                    Audio files that no entry uses. Repair removes them.
+                  </p>
+                  <div className="divide-y divide-slate-700/50">
+                    {orphanedFiles.map((issue) => (
+                      <div
+                        key={issue.id}
+                        className="flex items-center justify-between gap-3 py-2 text-sm"
+                      >
+                        <span className="font-mono truncate">
+                          {fileName(issue.path)}
+                        </span>
+                        <span className="text-slate-400 flex-shrink-0">
+                          {formatFileSize(issue.size)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {missingFiles.length > 0 && (
+                <div className="bg-slate-800 rounded-lg p-6">
+                  <div className="flex items-center space-x-3 mb-1">
+                    <FileQuestion className="w-5 h-5 text-red-400" />
+                    <h2 className="text-xl font-semibold">Missing Audio</h2>
+                  </div>
+                  <p className="text-sm text-slate-400 mb-4">
+                    Entries whose audio file no longer exists. Repair keeps the
+                    entries and their transcripts but removes playback.
+                  </p>
+                  <div className="divide-y divide-slate-700/50">
+                    {missingFiles.map((issue) => (
+                      <div
+                        key={issue.id}
+                        className="flex items-center justify-between gap-3 py-2 text-sm"
+                      >
+                        <span className="truncate">
+                          {issue.entry?.title || "Untitled entry"}
+                        </span>
+                        <span className="font-mono text-slate-400 truncate">
+                          {fileName(issue.path)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {deletions.length > 0 && (
+                <div className="bg-slate-800 rounded-lg p-6">
+                  <div className="flex items-center space-x-3 mb-1">
+                    <Clock className="w-5 h-5 text-blue-400" />
+                    <h2 className="text-xl font-semibold">Pending Removals</h2>
+                  </div>
+                  <p className="text-sm text-slate-400 mb-4">
+                    Audio of deleted entries waiting to be removed. Failed
+                    removals are retried automatically.
+                  </p>
+                  <div className="divide-y divide-slate-700/50">
+                    {deletions.map((deletion) => (
+                      <div key={deletion.id} className="py-2 text-sm">
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="font-mono truncate">
+                            {fileName(deletion.path)}
+                          </span>
+                          <span className="text-slate-400 flex-shrink-0">
+                            {deletion.attempts === 0
+                              ? "Queued"
+                              : `Next try ${formatDate(deletion.run_after)}`}
+                          </span>
+                        </div>
+                        {deletion.last_error && (
+                          <p className="text-xs text-red-300 mt-1">
+                            {deletion.last_error} ({deletion.attempts}{" "}
+                            {deletion.attempts === 1 ? "attempt" : "attempts"})
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageMaintenancePage;
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from "react";
+import { Navigate, useNavigate } from "react-router";
+import { ArrowLeft, Trash2, Loader2, RotateCcw } from "lucide-react";
+import { useAuth } from "../context/AuthContext";
+import { ApiService } from "../services/api";
+import { ConfirmationModal } from "../components/ConfirmationModal";
+import { formatRecordingTime } from "../utils/digests";
+import type { Entry } from "../types";
+
+/**
+ * Trash: restore entries moved to the trash or delete them permanently
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TrashPage: React.FC = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+  const [isEmptying, setIsEmptying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    Promise.all([
+      ApiService.fetchTrashedEntries(user.id),
+      ApiService.fetchTrashRetentionDays(),
+    ]).then(([trashed, days]) => {
+      setEntries(trashed);
+      setRetentionDays(days);
+      setIsLoading(false);
+    });
+  }, [user]);
+
+  if (loading) return null;
+  if (!user) return <Navigate to="/login" replace />;
+
+  const daysLeft = (entry: Entry) =>
+    retentionDays !== null && entry.deleted_at
+      ? Math.max(
+          0,
+          Math.ceil(
+            (new Date(entry.deleted_at).getTime() +
+              retentionDays * DAY_MS -
+              Date.now()) /
+              DAY_MS
+          )
+        )
+      : null;
+
+  const removeFromList = (entryId: string) =>
+    setEntries((prev) => prev.filter((entry) => entry.id !== entryId));
+
+  const restoreEntry = async (entryId: string) => {
+    setBusyId(entryId);
+    setError(null);
+    if (await ApiService.restoreTrashedEntry(entryId)) {
+      removeFromList(entryId);
+    } else {
+      setError("Restoring the entry failed. Please try again.");
+    }
+    setBusyId(null);
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    setDeleteId(null);
+    setBusyId(entryId);
+    setError(null);
+    if (await ApiService.deleteEntry(entryId)) {
+      removeFromList(entryId);
+    } else {
+      setError("Deleting the entry failed. Please try again.");
+    }
+    setBusyId(null);
+  };
+
+  const emptyTrash = async () => {
+    setConfirmEmpty(false);
+    setIsEmptying(true);
+    setError(null);
+    if (await ApiService.emptyTrash(user.id)) {
+      setEntries([]);
+    } else {
+      setError("Emptying the trash failed. Please try again.");
+    }
+    setIsEmptying(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white">
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center space-x-3 mb-2">
+            <button
+              onClick={() => navigate("/app")}
+              className="p-2 hover:bg-slate-800 rounded-lg transition-colors"
+              title="Back to logs"
+            >
+              <ArrowLeft className="w-6 h-6 text-slate-400" />
+            </button>
+            <Trash2 className="w-8 h-8 text-blue-400" />
+            <h1 className="text-3xl font-bold">Trash</h1>
+          </div>
+          <p className="text-slate-400">
+            {retentionDays !== null
+              ? `Entries in the trash are permanently deleted after ${retentionDays} ${
+                  retentionDays === 1 ? "day" : "days"
+                }`
+              : "Entries in the trash are permanently deleted after a while"}
+          </p>
+        </div>
+
+        <div className="bg-slate-800 rounded-lg p-6">
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-semibold">
+              {entries.length} {entries.length === 1 ? "entry" : "entries"}
+            </h2>
+            <button
+              onClick={() => setConfirmEmpty(true)}
+              disabled={entries.length === 0 || isEmptying}
+              className="flex items-center space-x-2 px-4 py-2 bg-red-600/10 border border-red-600/20 text-red-400 hover:bg-red-600/20 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+            >
+              {isEmptying ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Trash2 className="w-4 h-4" />
+              )}
+              <span>Empty Trash</span>
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-300 mb-4">{error}</p>}
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-slate-400 text-sm">The trash is empty.</p>
+          ) : (
+            <div className="divide-y divide-slate-700/50">
+              {entries.map((entry) => {
+                const remaining = daysLeft(entry);
+                return (
+                  <div
+                    key={entry.id}
+                    className="flex items-center justify-between gap-3 py-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{entry.title}</div>
+                      <div className="text-sm text-slate-400">
+                        {new Date(entry.created_at).toLocaleDateString()}
+                        {entry.duration
+                          ? ` · ${formatRecordingTime(entry.duration)}`
+                          : ""}
+                        {remaining !== null &&
+                          ` · Deleted ${
+                            remaining === 0
+                              ? "today"
+                              : `in ${remaining} ${
+                                  remaining === 1 ? "day" : "days"
+                                }`
+                          }`}
+                      </div>
+                    </div>
+                    {busyId === entry.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+                    ) : (
+                      <div className="flex items-center space-x-1">
+                        <button
+                          onClick={() => restoreEntry(entry.id)}
+                          className="flex items-center space-x-1 px-3 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+                          title="Restore entry"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span>Restore</span>
+                        </button>
+                        <button
+                          onClick={() => setDeleteId(entry.id)}
+                          className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                          title="Delete permanently"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={!!deleteId}
+        onConfirm={() => deleteEntry(deleteId!)}
+        onCancel={() => setDeleteId(null)}
+        title="Delete Permanently"
+        message={`This will permanently delete "${
+          entries.find((entry) => entry.id === deleteId)?.title
+        }" and all associated audio files. This action cannot be undone.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+        confirmButtonClass="bg-red-500 hover:bg-red-600"
+        icon={Trash2}
+        iconClass="text-red-400"
+        iconBgClass="bg-red-500/20"
+      />
+
+      <ConfirmationModal
+        isOpen={confirmEmpty}
+        onConfirm={emptyTrash}
+        onCancel={() => setConfirmEmpty(false)}
+        title="Empty Trash"
+        message={`This will permanently delete ${entries.length} ${
+          entries.length === 1 ? "entry" : "entries"
+        } and their audio files. This action cannot be undone.`}
+        confirmText="Empty Trash"
+        cancelText="Cancel"
+        confirmButtonClass="bg-red-500 hover:bg-red-600"
+        icon={Trash2}
+        iconClass="text-red-400"
+        iconBgClass="bg-red-500/20"
+      />
+    </div>
+  );
+};
+
+export default TrashPage;
@@ -1,55 +1,58 @@
 import { supabase } from "./supabaseClient";
-import type { Entry, ProcessAudioResponse } from "../types";
-import { ElevenLabsClient } from "@elevenlabs/elevenlabs-js";
+import { ISO_639_1_TO_3 } from "../utils/languages";
+import { audioFileExtension, normalizeAudioType } from "../utils/audioFiles";
+import { makeWebmSeekable } from "../utils/webm";
+import { computeWaveformPeaks } from "../utils/waveform";
+import type {
+  DataDeletionResult,
+  Digest,
+  DigestPeriod,
+  Entry,
+  EntryCursor,
+  EntryFilters,
+  EntryInsights,
+  EntryPage,
+  EntryRevision,
+  EntryTranscript,
+  EntrySearchFilters,
+  EntrySearchResult,
+  OutboxRecording,
+  SpeakerNames,
+  StorageDeletion,
+  StorageIssue,
+  StorageRepairResult,
+  Tag,
+  TitleBackfillResult,
+  UserSettings,
+  UserSettingsRecord,
+  ProcessingStatus,
+  TranscriptionOptions,
+  TranscriptionSource,
+  TranscriptSegment,
+} from "../types";
 
 /**
  * API service for handling audio processing and database operations
  */
 
-// Debug flag to enable/disable ElevenLabs integration
-const ENABLE_ELEVENLABS = true; // Set to false to use placeholder implementation
+const ENTRIES_PAGE_SIZE = 20;
+const EXPORT_PAGE_SIZE = 500;
 
-let client: ElevenLabsClient | null = null;
+// Everything the list needs, without the (potentially long) full transcript
+const ENTRY_LIST_COLUMNS =
+  "id, user_id, title, title_source, original_audio_url, processed_audio_url, audio_mime_type, waveform_peaks, transcription_preview, transcription_length, transcription_source, transcription_status, transcription_error, identify_speakers, speaker_names, language, duration, created_at, updated_at";
 
-export class ApiService {
-  /**
-   * Process audio - now only handles transcription, not audio enhancement
-   */
-  static async processAudio(
-    audioBlob: Blob,
-    languageCode?: string
-  ): Promise<ProcessAudioResponse> {
-    try {
-      // Generate transcription only
-      const transcription = await ApiService.generateTranscription(
-        audioBlob,
-        languageCode
-      );
-
-      console.log(
-        "Audio processing completed successfully (transcription only)"
-      );
-
-      return {
-        transcription,
-        processedAudioUrl: null, // No longer processing audio, just transcription
-        success: true,
-      };
-    } catch (error) {
-      console.error("Error processing audio:", error);
+// The subset of the query builder used to apply list filters
+interface FilterableQuery<Query> {
+  in(column: string, values: string[]): Query;
+  gte(column: string, value: string | number): Query;
+  lt(column: string, value: string | number): Query;
+}
 
-      return {
-        transcription: "Transcription failed - please try again",
-        processedAudioUrl: null,
-        success: false,
-        error:
-          error instanceof Error
-            ? error.message
-            : "Unknown error occurred during transcription",
-      };
-    }
-  }
+// Tags embedded through the entry_tags join table
+const ENTRY_TAGS_COLUMNS = "tags(id, user_id, name, created_at)";
 
+export class ApiService {
   /**
    * Get supported languages for transcription
    */
@@ -100,120 +103,70 @@ export class ApiService {
     const locale = navigator.language || navigator.languages?.[0] || "en-US";
     const languageCode = locale.substring(0, 2).toLowerCase();
 
-    // Map common language codes to ElevenLabs 3-letter codes
-    const languageMap: { [key: string]: string } = {
-      en: "eng", // English
-      es: "spa", // Spanish
-      fr: "fra", // French
-      de: "deu", // German
-      it: "ita", // Italian
-      pt: "por", // Portuguese
-      ru: "rus", // Russian
-      ja: "jpn", // Japanese
-      ko: "kor", // Korean
-      zh: "cmn", // Chinese (Mandarin)
-      ar: "ara", // Arabic
-      hi: "hin", // Hindi
-      nl: "nld", // Dutch
-      pl: "pol", // Polish
-      sv: "swe", // Swedish
-      da: "dan", // Danish
-      no: "nor", // Norwegian
-      fi: "fin", // Finnish
-      tr: "tur", // Turkish
-      cs: "ces", // Czech
-      hu: "hun", // Hungarian
-      ro: "ron", // Romanian
-      bg: "bul", // Bulgarian
-      hr: "hrv", // Croatian
-      sk: "slk", // Slovak
-      sl: "slv", // Slovenian
-    };
-
-    return languageMap[languageCode] || "eng"; // Default to English
+    return ISO_639_1_TO_3[languageCode] || "eng"; // Default to English
   }
 
   /**
-   * Generate transcription from audio blob using ElevenLabs Speech-to-Text API
+   * Queue server-side transcription of an entry's stored recording
+   * The entry is marked "processing" right away; the transcription worker
+   * writes the transcript (or the failure) once the job runs
    */
-  static async generateTranscription(
-    audioBlob: Blob,
-    languageCode?: string
-  ): Promise<string> {
-    if (!ENABLE_ELEVENLABS) {
-      // Placeholder implementation for development
-      console.log(
-        "ElevenLabs integration disabled - using placeholder transcription"
-      );
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      return `Placeholder transcription generated on ${new Date().toLocaleString()} - Duration: ${Math.round(
-        audioBlob.size / 1000
-      )}KB`;
-    }
-
+  static async enqueueTranscription(
+    entryId: string,
+    options: TranscriptionOptions = {}
+  ): Promise<boolean> {
     try {
-      const apiKey = import.meta.env.VITE_ELEVENLABS_API_KEY;
-
-      if (!apiKey) {
-        console.warn(
-          "ElevenLabs API key not found, using placeholder transcription"
-        );
-        return `Transcription generated on ${new Date().toLocaleString()} - Duration: ${Math.round(
-          audioBlob.size / 1000
-        )}KB`;
-      }
-
-      // Validate API key format
-      if (!apiKey.startsWith("sk_")) {
-        console.warn(
-          "Invalid ElevenLabs API key format, using placeholder transcription"
-        );
-        return `Transcription generated on ${new Date().toLocaleString()} - Duration: ${Math.round(
-          audioBlob.size / 1000
-        )}KB`;
-      }
-
-      console.log("Generating transcription with ElevenLabs...");
-
-      if (!client) {
-        client = new ElevenLabsClient({ apiKey });
-      }
-
       // Use provided language code or detect user language
-      const detectedLanguageCode =
-        languageCode || ApiService.detectUserLanguage();
-      console.log(`Using language code: ${detectedLanguageCode}`);
-
-      const response = await client.speechToText.convert({
-        modelId: "scribe_v1",
-        file: audioBlob,
-        languageCode: detectedLanguageCode,
-      });
+      const language = options.language || ApiService.detectUserLanguage();
 
-      const result = response.text;
+      const { error } = await supabase.rpc("enqueue_transcription", {
+        p_entry_id: entryId,
+        p_options: { ...options, language },
+      });
 
-      if (result && result.trim().length > 0) {
-        console.log("Transcription generated successfully");
-        return result;
-      } else {
-        throw new Error("No transcription text returned from API");
-      }
+      if (error) throw error;
+      return true;
     } catch (error) {
-      console.error("Error generating transcription with ElevenLabs:", error);
-      // Fallback to placeholder if API fails
-      return `Transcription failed on ${new Date().toLocaleString()} - please try again later. Error: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`;
+      console.error("Error enqueueing transcription:", error);
+      return false;
     }
   }
 
+  /**
+   * Subscribe to realtime changes of the user's entries
+   * Returns a function that removes the subscription
+   */
+  static subscribeToEntryUpdates(
+    userId: string,
+    onUpdate: (entry: Entry) => void
+  ): () => void {
+    const channel = supabase
+      .channel(`entries:${userId}`)
+      .on<Entry>(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "entries",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => onUpdate(payload.new)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
   /**
    * Upload original audio file to Supabase storage
    */
   static async uploadAudio(
     audioBlob: Blob,
     fileName: string,
-    userId: string
+    userId: string,
+    upsert: boolean = false
   ): Promise<string | null> {
     try {
       // Create user-specific path
@@ -222,8 +175,9 @@ export class ApiService {
       const { data, error } = await supabase.storage
         .from("audio-recordings")
         .upload(filePath, audioBlob, {
-          contentType: "audio/webm",
-          upsert: false,
+          contentType:
+            normalizeAudioType(audioBlob.type, fileName) ?? "audio/webm",
+          upsert,
         });
 
       if (error) throw error;
@@ -239,19 +193,32 @@ export class ApiService {
 
   /**
    * Save audio entry to database
+   * With an id, an entry already saved under that id is returned unchanged
    */
   static async saveEntry(
-    entry: Omit<Entry, "id" | "created_at" | "updated_at">
+    entry: Omit<Entry, "id" | "created_at" | "updated_at"> & {
+      id?: string;
+      created_at?: string;
+    }
   ): Promise<Entry | null> {
     try {
       const { data, error } = await supabase
         .from("entries")
-        .insert(entry)
+        .upsert(entry, { onConflict: "id", ignoreDuplicates: true })
+        .select();
+
+      if (error) throw error;
+      if (data.length > 0) return data[0];
+      if (!entry.id) return null;
+
+      const { data: existing, error: existingError } = await supabase
+        .from("entries")
         .select()
+        .eq("id", entry.id)
         .single();
 
-      if (error) throw error;
-      return data;
+      if (existingError) throw existingError;
+      return existing;
     } catch (error) {
       console.error("Error saving entry:", error);
       return null;
@@ -259,16 +226,144 @@ export class ApiService {
   }
 
   /**
-   * Update entry transcription in database
+   * Upload a recording, create its entry and queue its transcription
+   * Safe to retry: the storage path and the entry id are the recording id
+   */
+  static async createEntryFromRecording(
+    recording: OutboxRecording
+  ): Promise<Entry | null> {
+    if (recording.blob.size === 0) {
+      console.error("Skipping empty recording:", recording.id);
+      return null;
+    }
+
+    // MediaRecorder's WebM has no duration or seek index until it is remuxed
+    const extension = audioFileExtension(recording.blob.type);
+    const audio =
+      (extension === "webm" && (await makeWebmSeekable(recording.blob))) ||
+      recording.blob;
+
+    const fileName = `recording_${recording.id}.${extension}`;
+    const originalAudioUrl = await ApiService.uploadAudio(
+      audio,
+      fileName,
+      recording.userId,
+      true
+    );
+    if (!originalAudioUrl) return null;
+
+    // Placeholder until the worker titles the entry from its transcript
+    const recordedAt = new Date(recording.createdAt);
+    const title =
+      recording.title ||
+      `Founder Log - ${recordedAt.toLocaleDateString()} ${recordedAt.toLocaleTimeString(
+        [],
+        { hour: "2-digit", minute: "2-digit" }
+      )}`;
+
+    const entry = await ApiService.saveEntry({
+      id: recording.id,
+      user_id: recording.userId,
+      title,
+      original_audio_url: originalAudioUrl,
+      processed_audio_url: originalAudioUrl,
+      audio_mime_type: normalizeAudioType(audio.type, fileName),
+      waveform_peaks: await computeWaveformPeaks(audio),
+      transcription_status: "processing",
+      identify_speakers: recording.identifySpeakers ?? false,
+      language: recording.language,
+      duration: recording.duration,
+      created_at: recording.createdAt,
+    });
+    if (!entry) return null;
+
+    console.log("Entry saved successfully:", entry.id);
+
+    // Saved by an earlier attempt whose transcription has already finished
+    if (entry.transcription_status !== "processing") return entry;
+
+    // Transcription runs in the background; the entry is already saved
+    const queued = await ApiService.enqueueTranscription(entry.id, {
+      language: recording.language,
+    });
+    if (!queued) {
+      await ApiService.updateTranscriptionStatus(
+        entry.id,
+        "failed",
+        "Could not queue transcription. Please retry."
+      );
+    }
+
+    return entry;
+  }
+
+  /**
+   * Store the waveform of an entry saved before waveforms were computed
+   */
+  static async updateWaveformPeaks(
+    entryId: string,
+    peaks: number[]
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("entries")
+        .update({ waveform_peaks: peaks })
+        .eq("id", entryId);
+
+      return !error;
+    } catch (error) {
+      console.error("Error updating waveform:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Rename an entry; a manual title is never replaced by an automatic one
+   */
+  static async updateEntryTitle(
+    entryId: string,
+    title: string
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("entries")
+        .update({
+          title,
+          title_source: "manual",
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", entryId);
+
+      return !error;
+    } catch (error) {
+      console.error("Error updating entry title:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Update entry transcription in database and mark it completed
+   * The previous transcript stays available in the entry's revision history.
+   * Word timings belong to the ASR output, so they are cleared unless the
+   * ASR transcript itself is restored with its timings.
    */
   static async updateEntryTranscription(
     entryId: string,
-    transcription: string
+    transcription: string,
+    source: TranscriptionSource = "manual",
+    segments: TranscriptSegment[] | null = null
   ): Promise<boolean> {
     try {
       const { error } = await supabase
         .from("entries")
-        .update({ transcription, updated_at: new Date().toISOString() })
+        .update({
+          transcription,
+          transcription_source: source,
+          transcript_segments: segments,
+          transcription_status: "completed",
+          transcription_error: null,
+          updated_at: new Date().toISOString(),
+        })
         .eq("id", entryId);
 
       return !error;
@@ -279,78 +374,942 @@ export class ApiService {
   }
 
   /**
-   * Fetch user's audio entries
+   * Save display names for the speakers of a diarized transcript
    */
-  static async fetchEntries(userId: string): Promise<Entry[]> {
+  static async updateSpeakerNames(
+    entryId: string,
+    speakerNames: SpeakerNames
+  ): Promise<boolean> {
     try {
-      const { data, error } = await supabase
+      const { error } = await supabase
         .from("entries")
+        .update({
+          speaker_names: speakerNames,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", entryId);
+
+      return !error;
+    } catch (error) {
+      console.error("Error updating speaker names:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetch every recorded version of an entry's title and transcript, newest first
+   */
+  static async fetchEntryRevisions(entryId: string): Promise<EntryRevision[]> {
+    try {
+      const { data, error } = await supabase
+        .from("entry_revisions")
         .select("*")
-        .eq("user_id", userId)
+        .eq("entry_id", entryId)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
       return data || [];
     } catch (error) {
-      console.error("Error fetching entries:", error);
+      console.error("Error fetching entry revisions:", error);
       return [];
     }
   }
 
   /**
-   * Delete an audio entry and its associated files
+   * Make a previous version the current title or transcript again
+   * Restoring is itself recorded as a new revision
    */
-  static async deleteEntry(entryId: string): Promise<boolean> {
+  static async restoreEntryRevision(revision: EntryRevision): Promise<boolean> {
+    if (revision.field === "title") {
+      return ApiService.updateEntryTitle(
+        revision.entry_id,
+        revision.content || ""
+      );
+    }
+
+    return revision.source === "asr"
+      ? ApiService.updateEntryTranscription(
+          revision.entry_id,
+          revision.content || "",
+          "asr",
+          revision.transcript_segments ?? null
+        )
+      : ApiService.updateEntryTranscription(
+          revision.entry_id,
+          revision.content || ""
+        );
+  }
+
+  /**
+   * Update entry transcription status, keeping the existing transcript untouched
+   */
+  static async updateTranscriptionStatus(
+    entryId: string,
+    status: ProcessingStatus,
+    transcriptionError: string | null = null
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("entries")
+        .update({
+          transcription_status: status,
+          transcription_error: transcriptionError,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", entryId);
+
+      return !error;
+    } catch (error) {
+      console.error("Error updating transcription status:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Narrow an entries query; tag filters need `entry_tags!inner()` selected
+   */
+  private static applyEntryFilters<Query extends FilterableQuery<Query>>(
+    query: Query,
+    filters: EntryFilters
+  ): Query {
+    let filtered = query;
+    if (filters.tagIds?.length) {
+      filtered = filtered.in("entry_tags.tag_id", filters.tagIds);
+    }
+    if (filters.dateFrom)
+      filtered = filtered.gte("created_at", filters.dateFrom);
+    if (filters.dateTo) filtered = filtered.lt("created_at", filters.dateTo);
+    if (filters.minDuration !== undefined) {
+      filtered = filtered.gte("duration", filters.minDuration);
+    }
+    if (filters.maxDuration !== undefined) {
+      filtered = filtered.lt("duration", filters.maxDuration);
+    }
+    return filtered;
+  }
+
+  // A tag filter whose tags the user does not have
+  private static matchesNoEntries(filters: EntryFilters): boolean {
+    return filters.tagIds?.length === 0;
+  }
+
+  /**
+   * Fetch a page of the user's audio entries with their tags, newest first
+   * Uses keyset pagination on (created_at, id) and omits full transcripts;
+   * load those with fetchEntryTranscript when an entry is expanded
+   */
+  static async fetchEntries(
+    userId: string,
+    filters: EntryFilters = {},
+    cursor: EntryCursor | null = null,
+    pageSize: number = ENTRIES_PAGE_SIZE
+  ): Promise<EntryPage> {
+    if (ApiService.matchesNoEntries(filters)) {
+      return { entries: [], nextCursor: null };
+    }
+
+    try {
+      const columns: string = `${ENTRY_LIST_COLUMNS}, ${ENTRY_TAGS_COLUMNS}${
+        filters.tagIds?.length ? ", entry_tags!inner()" : ""
+      }`;
+
+      let query = ApiService.applyEntryFilters(
+        supabase
+          .from("entries")
+          .select<string, Entry>(columns)
+          .eq("user_id", userId)
+          .is("deleted_at", null),
+        filters
+      )
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(pageSize);
+
+      if (cursor) {
+        query = query.or(
+          `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+        );
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      const entries: Entry[] = data || [];
+      const last = entries[entries.length - 1];
+      return {
+        entries,
+        nextCursor:
+          entries.length === pageSize && last
+            ? { createdAt: last.created_at, id: last.id }
+            : null,
+      };
+    } catch (error) {
+      console.error("Error fetching entries:", error);
+      return { entries: [], nextCursor: null };
+    }
+  }
+
+  /**
+   * Count the user's audio entries matching the filters
+   */
+  static async countEntries(
+    userId: string,
+    filters: EntryFilters = {}
+  ): Promise<number | null> {
+    if (ApiService.matchesNoEntries(filters)) return 0;
+
     try {
-      // First get the entry to find associated files
-      const { data: entry, error: fetchError } = await supabase
+      const { count, error } = await ApiService.applyEntryFilters(
+        supabase
+          .from("entries")
+          .select<string, Pick<Entry, "id">>(
+            filters.tagIds?.length ? "id, entry_tags!inner()" : "id",
+            { count: "exact", head: true }
+          )
+          .eq("user_id", userId)
+          .is("deleted_at", null),
+        filters
+      );
+
+      if (error) throw error;
+      return count;
+    } catch (error) {
+      console.error("Error counting entries:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the full transcript of an entry with its word timings
+   */
+  static async fetchEntryTranscript(
+    entryId: string
+  ): Promise<EntryTranscript | null> {
+    try {
+      const { data, error } = await supabase
         .from("entries")
-        .select("original_audio_url, processed_audio_url, user_id")
+        .select("transcription, transcript_segments")
         .eq("id", entryId)
         .single();
 
-      if (fetchError) throw fetchError;
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error fetching entry transcription:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch complete entries with their tags, for exports
+   * Pass entry ids to export a selection, or none for all of the user's entries
+   */
+  static async fetchEntriesForExport(
+    userId: string,
+    entryIds?: string[]
+  ): Promise<Entry[] | null> {
+    try {
+      const entries: Entry[] = [];
+      const columns: string = `*, ${ENTRY_TAGS_COLUMNS}`;
 
-      // Delete associated audio files from storage
-      const filesToDelete: string[] = [];
+      // PostgREST caps responses, so page through large journals
+      for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+        let query = supabase
+          .from("entries")
+          .select<string, Entry>(columns)
+          .eq("user_id", userId)
+          .is("deleted_at", null)
+          .order("created_at", { ascending: true })
+          .range(from, from + EXPORT_PAGE_SIZE - 1);
+        if (entryIds) query = query.in("id", entryIds);
 
-      if (entry.original_audio_url) {
-        const originalPath = entry.original_audio_url.split("/").pop();
-        if (originalPath) {
-          filesToDelete.push(`${entry.user_id}/${originalPath}`);
-        }
-      }
+        const { data, error } = await query;
+        if (error) throw error;
 
-      if (
-        entry.processed_audio_url &&
-        entry.processed_audio_url !== entry.original_audio_url
-      ) {
-        const processedPath = entry.processed_audio_url.split("/").pop();
-        if (processedPath) {
-          filesToDelete.push(`${entry.user_id}/${processedPath}`);
-        }
+        entries.push(...(data || []));
+        if (!data || data.length < EXPORT_PAGE_SIZE) return entries;
       }
+    } catch (error) {
+      console.error("Error fetching entries for export:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Download a stored recording from the private audio bucket
+   */
+  static async downloadAudio(audioPath: string): Promise<Blob | null> {
+    try {
+      const { data, error } = await supabase.storage
+        .from("audio-recordings")
+        .download(audioPath);
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error downloading audio:", error);
+      return null;
+    }
+  }
 
-      // Delete files from storage
-      if (filesToDelete.length > 0) {
-        const { error: storageError } = await supabase.storage
-          .from("audio-recordings")
-          .remove(filesToDelete);
+  /**
+   * Remove a recording from the audio bucket
+   */
+  static async removeAudio(audioPath: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.storage
+        .from("audio-recordings")
+        .remove([audioPath]);
 
-        if (storageError) {
-          console.warn("Error deleting storage files:", storageError);
-        }
-      }
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error removing audio:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Whether a recording is still in the audio bucket
+   */
+  static async audioExists(audioPath: string): Promise<boolean> {
+    try {
+      const folder = audioPath.split("/").slice(0, -1).join("/");
+      const fileName = audioPath.split("/").pop() || "";
+      const { data, error } = await supabase.storage
+        .from("audio-recordings")
+        .list(folder, { search: fileName });
+
+      if (error) throw error;
+      return (data || []).some((file) => file.name === fileName);
+    } catch (error) {
+      console.error("Error checking audio file:", error);
+      return false;
+    }
+  }
 
-      // Delete the database entry
-      const { error: deleteError } = await supabase
+  /**
+   * Recreate an exported entry under its original id
+   * Returns "skipped" when an entry with that id already exists
+   */
+  static async restoreEntry(
+    entry: Omit<Entry, "updated_at" | "tags">
+  ): Promise<"restored" | "skipped" | null> {
+    try {
+      const { data, error } = await supabase
         .from("entries")
-        .delete()
-        .eq("id", entryId);
+        .upsert(entry, { onConflict: "id", ignoreDuplicates: true })
+        .select("id");
 
-      return !deleteError;
+      if (error) throw error;
+      return data && data.length > 0 ? "restored" : "skipped";
     } catch (error) {
-      console.error("Error deleting entry:", error);
+      console.error("Error restoring entry:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Full-text search across the user's entry titles and transcripts
+   * Results are ranked by relevance and include a highlighted snippet and tags
+   */
+  static async searchEntries(
+    query: string,
+    filters: EntrySearchFilters = {}
+  ): Promise<EntrySearchResult[]> {
+    if (!query.trim() || ApiService.matchesNoEntries(filters)) return [];
+
+    try {
+      const { data, error } = await supabase.rpc("search_entries", {
+        p_query: query.trim(),
+        p_date_from: filters.dateFrom ?? null,
+        p_date_to: filters.dateTo ?? null,
+        p_max_results: filters.limit ?? 50,
+        p_tag_ids: filters.tagIds?.length ? filters.tagIds : null,
+        p_min_duration: filters.minDuration ?? null,
+        p_max_duration: filters.maxDuration ?? null,
+      });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error searching entries:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch the generated insights of an entry, if any
+   */
+  static async fetchEntryInsights(
+    entryId: string
+  ): Promise<EntryInsights | null> {
+    try {
+      const { data, error } = await supabase
+        .from("entry_insights")
+        .select("*")
+        .eq("entry_id", entryId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error fetching entry insights:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Regenerate an entry's insights from its current transcript
+   * Progress is written to `entry_insights`; follow it with subscribeToEntryInsights
+   */
+  static async generateEntryInsights(entryId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase.functions.invoke("generate-insights", {
+        body: { entryId },
+      });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error generating entry insights:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Title one batch of transcribed entries that still have a placeholder title
+   * Call again with the returned cursor until `remaining` is 0; manual titles
+   * are never replaced
+   */
+  static async generateEntryTitles(
+    cursor: EntryCursor | null = null
+  ): Promise<TitleBackfillResult | null> {
+    try {
+      const { data, error } =
+        await supabase.functions.invoke<TitleBackfillResult>(
+          "generate-titles",
+          { body: { cursor } }
+        );
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error generating entry titles:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the user's synced settings; null when none are stored yet
+   */
+  static async fetchUserSettings(
+    userId: string
+  ): Promise<UserSettingsRecord | null> {
+    try {
+      const { data, error } = await supabase
+        .from("user_settings")
+        .select("user_id, settings, schema_version, updated_at")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error fetching user settings:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Store the user's settings, replacing the synced copy.
+   * With `onlyIfMissing`, settings that are already stored are kept.
+   */
+  static async saveUserSettings(
+    userId: string,
+    settings: UserSettings,
+    schemaVersion: number,
+    onlyIfMissing: boolean = false
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("user_settings")
+        .upsert(
+          { user_id: userId, settings, schema_version: schemaVersion },
+          { onConflict: "user_id", ignoreDuplicates: onlyIfMissing }
+        );
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error saving user settings:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Subscribe to changes of the user's settings made on any device
+   * Returns a function that removes the subscription
+   */
+  static subscribeToUserSettings(
+    userId: string,
+    onChange: (record: UserSettingsRecord) => void
+  ): () => void {
+    const channel = supabase
+      .channel(`user_settings:${userId}`)
+      .on<UserSettingsRecord>(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "user_settings",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.eventType !== "DELETE") onChange(payload.new);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Subscribe to realtime changes of an entry's insights
+   * Returns a function that removes the subscription
+   */
+  static subscribeToEntryInsights(
+    entryId: string,
+    onChange: (insights: EntryInsights) => void
+  ): () => void {
+    const channel = supabase
+      .channel(`entry_insights:${entryId}`)
+      .on<EntryInsights>(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "entry_insights",
+          filter: `entry_id=eq.${entryId}`,
+        },
+        (payload) => {
+          if (payload.eventType !== "DELETE") onChange(payload.new);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Fetch all of the user's tags, alphabetically
+   */
+  static async fetchTags(userId: string): Promise<Tag[]> {
+    try {
+      const { data, error } = await supabase
+        .from("tags")
+        .select("id, user_id, name, created_at")
+        .eq("user_id", userId)
+        .order("name");
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a tag for the user
+   */
+  static async createTag(userId: string, name: string): Promise<Tag | null> {
+    try {
+      const { data, error } = await supabase
+        .from("tags")
+        .insert({ user_id: userId, name: name.trim() })
+        .select("id, user_id, name, created_at")
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error creating tag:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Attach a tag to an entry
+   */
+  static async addTagToEntry(entry: Entry, tagId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("entry_tags")
+        .upsert(
+          { entry_id: entry.id, tag_id: tagId, user_id: entry.user_id },
+          { onConflict: "entry_id,tag_id", ignoreDuplicates: true }
+        );
+
+      return !error;
+    } catch (error) {
+      console.error("Error tagging entry:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Detach a tag from an entry
+   */
+  static async removeTagFromEntry(
+    entryId: string,
+    tagId: string
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("entry_tags")
+        .delete()
+        .eq("entry_id", entryId)
+        .eq("tag_id", tagId);
+
+      return !error;
+    } catch (error) {
+      console.error("Error removing tag from entry:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetch the user's stored digests, most recent period first
+   */
+  static async fetchDigests(userId: string): Promise<Digest[]> {
+    try {
+      const { data, error } = await supabase
+        .from("digests")
+        .select("*")
+        .eq("user_id", userId)
+        .order("period_start", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error fetching digests:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch a single digest
+   */
+  static async fetchDigest(digestId: string): Promise<Digest | null> {
+    try {
+      const { data, error } = await supabase
+        .from("digests")
+        .select("*")
+        .eq("id", digestId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error fetching digest:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Generate (or regenerate) the digest of a week or month in local time
+   * A failed generation is still stored with its error; fetch it to show it
+   */
+  static async generateDigest(
+    period: DigestPeriod,
+    bounds: { start: Date; end: Date }
+  ): Promise<Digest | null> {
+    try {
+      const { data, error } = await supabase.functions.invoke<{
+        digest: Digest;
+      }>("generate-digest", {
+        body: {
+          period,
+          periodStart: bounds.start.toISOString(),
+          periodEnd: bounds.end.toISOString(),
+        },
+      });
+
+      if (error) throw error;
+      return data?.digest ?? null;
+    } catch (error) {
+      console.error("Error generating digest:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a stored digest
+   */
+  static async deleteDigest(digestId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("digests")
+        .delete()
+        .eq("id", digestId);
+
+      return !error;
+    } catch (error) {
+      console.error("Error deleting digest:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Move an entry to the trash; it is purged after the retention period
+   */
+  static async trashEntry(entryId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("entries")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("id", entryId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error moving entry to trash:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Move an entry out of the trash
+   */
+  static async restoreTrashedEntry(entryId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("entries")
+        .update({ deleted_at: null })
+        .eq("id", entryId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error restoring entry from trash:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetch the user's trashed entries, most recently trashed first
+   */
+  static async fetchTrashedEntries(userId: string): Promise<Entry[]> {
+    try {
+      const columns: string = `${ENTRY_LIST_COLUMNS}, deleted_at`;
+      const { data, error } = await supabase
+        .from("entries")
+        .select<string, Entry>(columns)
+        .eq("user_id", userId)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error fetching trashed entries:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Number of days trashed entries are kept before they are purged
+   */
+  static async fetchTrashRetentionDays(): Promise<number | null> {
+    try {
+      const { data, error } = await supabase.rpc("trash_retention_days");
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error fetching trash retention:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Permanently delete every trashed entry of the user
+   */
+  static async emptyTrash(userId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("entries")
+        .delete()
+        .eq("user_id", userId)
+        .not("deleted_at", "is", null);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Permanently delete an audio entry. Its audio files are queued for removal in the same
+   * transaction and removed from storage in the background, with retries.
+   */
+  static async deleteEntry(entryId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from("entries")
+        .delete()
+        .eq("id", entryId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error deleting entry:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Fetch the findings of the user's last storage reconciliation
+   */
+  static async fetchStorageIssues(userId: string): Promise<StorageIssue[]> {
+    try {
+      const { data, error } = await supabase
+        .from("storage_issues")
+        .select("*, entry:entries(title)")
+        .eq("user_id", userId)
+        .order("detected_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error fetching storage issues:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch audio files of deleted entries that have not been removed yet
+   */
+  static async fetchStorageDeletions(
+    userId: string
+  ): Promise<StorageDeletion[]> {
+    try {
+      const { data, error } = await supabase
+        .from("storage_deletions")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error("Error fetching storage deletions:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Compare the user's audio files with their entries and store the findings
+   */
+  static async reconcileAudioStorage(): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc("reconcile_audio_storage");
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error reconciling audio storage:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Queue orphaned files for removal and detach missing files from entries
+   */
+  static async repairAudioStorage(): Promise<StorageRepairResult | null> {
+    try {
+      const { data, error } = await supabase
+        .rpc("repair_audio_storage")
+        .single<StorageRepairResult>();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error repairing audio storage:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the storage paths of the user's WebM recordings, trashed ones included
+   */
+  static async fetchWebmAudioPaths(userId: string): Promise<string[] | null> {
+    try {
+      const paths: string[] = [];
+
+      for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("entries")
+          .select("original_audio_url")
+          .eq("user_id", userId)
+          .like("original_audio_url", "%.webm")
+          .order("created_at", { ascending: true })
+          .range(from, from + EXPORT_PAGE_SIZE - 1);
+
+        if (error) throw error;
+
+        paths.push(
+          ...(data || []).map((entry) => entry.original_audio_url as string)
+        );
+        if (!data || data.length < EXPORT_PAGE_SIZE) return paths;
+      }
+    } catch (error) {
+      console.error("Error fetching WebM audio paths:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Permanently delete all of the user's entries, digests and audio files
+   */
+  static async deleteAllEntries(): Promise<DataDeletionResult | null> {
+    try {
+      const { data, error } =
+        await supabase.functions.invoke<DataDeletionResult>(
+          "delete-user-data",
+          { body: { scope: "recordings" } }
+        );
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error("Error deleting all entries:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Permanently delete the user's data and their account.
+   * The session is no longer valid afterwards.
+   */
+  static async deleteAccount(): Promise<boolean> {
+    try {
+      const { error } = await supabase.functions.invoke("delete-user-data", {
+        body: { scope: "account" },
+      });
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error("Error deleting account:", error);
       return false;
     }
   }
@@ -0,0 +1,82 @@
+import { ApiService } from "./api";
+import { makeWebmSeekable } from "../utils/webm";
+import { probeAudioDuration } from "../utils/audioFiles";
+import type { ExportProgress } from "./export";
+
+/**
+ * Make recordings stored before WebM files were remuxed on upload seekable
+ *
+ * Each WebM recording is downloaded, remuxed with a duration and seek index
+ * and uploaded again to the same path. Files that already have both are left
+ * alone, so running the repair again only downloads them. The original is only
+ * replaced once the remuxed file parses as seekable and plays for as long.
+ */
+
+export interface RecordingRepairResult {
+  repaired: number;
+  skipped: number;
+  failed: number;
+}
+
+// Allowed difference between the probed durations, in seconds
+const DURATION_TOLERANCE = 1;
+
+const isSafeReplacement = async (original: Blob, remuxed: Blob) => {
+  // A second pass finds nothing to fix in a correctly remuxed file
+  if (await makeWebmSeekable(remuxed)) return false;
+
+  const remuxedDuration = await probeAudioDuration(remuxed);
+  if (!remuxedDuration) return false;
+  const originalDuration = await probeAudioDuration(original);
+  return (
+    !originalDuration ||
+    Math.abs(remuxedDuration - originalDuration) <= DURATION_TOLERANCE
+  );
+};
+
+export const repairStoredRecordings = async (
+  userId: string,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<RecordingRepairResult | null> => {
+  const paths = await ApiService.fetchWebmAudioPaths(userId);
+  if (!paths) return null;
+
+  const result: RecordingRepairResult = { repaired: 0, skipped: 0, failed: 0 };
+
+  for (const [index, path] of paths.entries()) {
+    onProgress?.({ done: index, total: paths.length });
+
+    const audio = await ApiService.downloadAudio(path);
+    if (!audio) {
+      result.failed++;
+      continue;
+    }
+
+    const seekable = await makeWebmSeekable(audio);
+    if (!seekable) {
+      result.skipped++;
+      continue;
+    }
+
+    if (!(await isSafeReplacement(audio, seekable))) {
+      console.error(`Remuxed recording did not verify, keeping ${path}`);
+      result.failed++;
+      continue;
+    }
+
+    const uploaded = await ApiService.uploadAudio(
+      seekable,
+      path.slice(userId.length + 1),
+      userId,
+      true
+    );
+    if (uploaded) {
+      result.repaired++;
+    } else {
+      result.failed++;
+    }
+  }
+  onProgress?.({ done: paths.length, total: paths.length });
+
+  return result;
+};
@@ -0,0 +1,237 @@
+import { ApiService } from "./api";
+import { toSrt, toSubtitleCues, toVtt } from "../utils/subtitles";
+import type { SubtitleCue } from "../utils/subtitles";
+import { createZip } from "../utils/zip";
+import type { ZipFile } from "../utils/zip";
+import { downloadBlob, downloadTextFile } from "../utils/download";
+import type { Entry } from "../types";
+
+/**
+ * Export entries as Markdown, JSON, SRT/WebVTT subtitles or a ZIP with audio
+ *
+ * Single entries are exported from the entry's actions menu, everything from
+ * Settings. Exports always fetch the complete entries, since the list only
+ * holds transcript previews.
+ */
+
+export type EntryExportFormat = "markdown" | "json" | "srt" | "vtt" | "zip";
+
+export const ENTRY_EXPORT_FORMATS: {
+  value: EntryExportFormat;
+  label: string;
+}[] = [
+  { value: "markdown", label: "Markdown" },
+  { value: "json", label: "JSON" },
+  { value: "srt", label: "SRT subtitles" },
+  { value: "vtt", label: "WebVTT subtitles" },
+  { value: "zip", label: "ZIP with audio" },
+];
+
+export interface ExportProgress {
+  done: number;
+  total: number;
+}
+
+const formatDuration = (seconds: number | undefined): string => {
+  if (!seconds) return "Unknown";
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+// "2025-07-28-investor-call-prep"; archives append the id to keep folders unique
+const entryFileName = (entry: Entry): string => {
+  const slug = entry.title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${entry.created_at.slice(0, 10)}-${slug || "entry"}`;
+};
+
+const audioExtension = (audioPath: string): string =>
+  audioPath.includes(".") ? audioPath.split(".").pop()! : "webm";
+
+// Without word timings the whole transcript becomes a single cue
+const entryCues = (entry: Entry): SubtitleCue[] =>
+  entry.transcript_segments?.length
+    ? toSubtitleCues(entry.transcript_segments, entry.speaker_names)
+    : entry.transcription
+    ? [{ start: 0, end: entry.duration || 0, text: entry.transcription }]
+    : [];
+
+export const entryToMarkdown = (entry: Entry): string => {
+  const lines = [
+    `# ${entry.title}`,
+    "",
+    `- Recorded: ${new Date(entry.created_at).toLocaleString()}`,
+    `- Duration: ${formatDuration(entry.duration)}`,
+  ];
+  if (entry.language) lines.push(`- Language: ${entry.language}`);
+  if (entry.tags?.length) {
+    lines.push(`- Tags: ${entry.tags.map((tag) => tag.name).join(", ")}`);
+  }
+
+  lines.push("", "## Transcript", "");
+  const cues = entry.transcript_segments?.some((segment) => segment.speaker)
+    ? toSubtitleCues(entry.transcript_segments, entry.speaker_names)
+    : null;
+
+  if (cues) {
+    // One paragraph per speaker turn
+    const turns = cues.reduce<{ speaker?: string; text: string }[]>(
+      (result, cue) => {
+        const last = result[result.length - 1];
+        if (last && last.speaker === cue.speaker) {
+          last.text = `${last.text} ${cue.text}`;
+        } else {
+          result.push({ speaker: cue.speaker, text: cue.text });
+        }
+        return result;
+      },
+      []
+    );
+    turns.forEach((turn) =>
+      lines.push(`**${turn.speaker || "Unknown"}:** ${turn.text}`, "")
+    );
+  } else {
+    lines.push(entry.transcription || "_No transcript yet._", "");
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * Files describing one entry, placed under `folder` in an archive
+ * Returns false for `audio` when the recording could not be downloaded.
+ */
+const entryArchiveFiles = async (
+  entry: Entry,
+  folder: string
+): Promise<{ files: ZipFile[]; audio: boolean }> => {
+  const modifiedAt = new Date(entry.created_at);
+  const files: ZipFile[] = [
+    { name: `${folder}entry.md`, data: entryToMarkdown(entry), modifiedAt },
+    {
+      name: `${folder}entry.json`,
+      data: JSON.stringify(entry, null, 2),
+      modifiedAt,
+    },
+  ];
+
+  const cues = entryCues(entry);
+  if (cues.length > 0) {
+    files.push(
+      { name: `${folder}transcript.srt`, data: toSrt(cues), modifiedAt },
+      { name: `${folder}transcript.vtt`, data: toVtt(cues), modifiedAt }
+    );
+  }
+
+  const audioPath = entry.original_audio_url || entry.processed_audio_url;
+  if (!audioPath) return { files, audio: true };
+
+  const audio = await ApiService.downloadAudio(audioPath);
+  if (audio) {
+    files.push({
+      name: `${folder}audio.${audioExtension(audioPath)}`,
+      data: audio,
+      modifiedAt,
+    });
+  }
+  return { files, audio: !!audio };
+};
+
+/**
+ * Download one entry in the given format
+ */
+export const exportEntry = async (
+  entry: Entry,
+  format: EntryExportFormat
+): Promise<boolean> => {
+  const [fullEntry] =
+    (await ApiService.fetchEntriesForExport(entry.user_id, [entry.id])) || [];
+  if (!fullEntry) return false;
+
+  const name = entryFileName(fullEntry);
+  switch (format) {
+    case "markdown":
+      downloadTextFile(`${name}.md`, entryToMarkdown(fullEntry));
+      return true;
+    case "json":
+      downloadTextFile(
+        `${name}.json`,
+        JSON.stringify(fullEntry, null, 2),
+        "application/json"
+      );
+      return true;
+    case "srt":
+      downloadTextFile(
+        `${name}.srt`,
+        toSrt(entryCues(fullEntry)),
+        "text/plain"
+      );
+      return true;
+    case "vtt":
+      downloadTextFile(`${name}.vtt`, toVtt(entryCues(fullEntry)), "text/vtt");
+      return true;
+    case "zip": {
+      const { files, audio } = await entryArchiveFiles(fullEntry, "");
+      if (!audio) return false;
+      downloadBlob(`${name}.zip`, await createZip(files));
+      return true;
+    }
+  }
+};
+
+/**
+ * Download all of the user's entries as a ZIP archive
+ *
+ * The archive holds `entries.json` (every entry, as the `Entry` type), a
+ * folder per entry with Markdown, JSON, subtitles and the original audio, and
+ * a `manifest.json` listing recordings that could not be downloaded.
+ * Everything is assembled in memory before the download starts.
+ */
+export const exportAllEntries = async (
+  userId: string,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<boolean> => {
+  const entries = await ApiService.fetchEntriesForExport(userId);
+  if (!entries) return false;
+
+  const exportedAt = new Date();
+  const files: ZipFile[] = [
+    { name: "entries.json", data: JSON.stringify(entries, null, 2) },
+  ];
+  const missingAudio: string[] = [];
+
+  for (const [index, entry] of entries.entries()) {
+    onProgress?.({ done: index, total: entries.length });
+    const archived = await entryArchiveFiles(
+      entry,
+      `entries/${entryFileName(entry)}-${entry.id.slice(0, 8)}/`
+    );
+    files.push(...archived.files);
+    if (!archived.audio) missingAudio.push(entry.id);
+  }
+  onProgress?.({ done: entries.length, total: entries.length });
+
+  files.push({
+    name: "manifest.json",
+    data: JSON.stringify(
+      {
+        exported_at: exportedAt.toISOString(),
+        entry_count: entries.length,
+        missing_audio: missingAudio,
+      },
+      null,
+      2
+    ),
+  });
+
+  downloadBlob(
+    `janusarc-export-${exportedAt.toISOString().slice(0, 10)}.zip`,
+    await createZip(files)
+  );
+  return true;
+};
@@ -0,0 +1,239 @@
+import { ApiService } from "./api";
+import { readZip } from "../utils/zip";
+import {
+  audioFileExtension,
+  normalizeAudioType,
+  probeAudioDuration,
+} from "../utils/audioFiles";
+import type { Entry, Tag } from "../types";
+
+/**
+ * Import audio files and restore entries from exports
+ *
+ * Audio files become new entries and are transcribed like recordings, keeping
+ * the file's modification time as the recording time. Exports (`entries.json`,
+ * a single entry's JSON, or the ZIP from Export All Data) restore entries
+ * under their original ids, so importing the same export twice skips what
+ * already exists. Errors are thrown with messages meant for the user.
+ */
+
+// Matches the `audio-recordings` bucket limit
+const MAX_AUDIO_BYTES = 50 * 1024 * 1024;
+
+export type ImportFileKind = "audio" | "archive";
+
+export interface ArchiveImportResult {
+  restored: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface AudioImportOptions {
+  language: string;
+  identifySpeakers?: boolean;
+}
+
+export const getImportFileKind = (file: File): ImportFileKind | null => {
+  if (normalizeAudioType(file.type, file.name)) return "audio";
+  if (/\.(json|zip)$/i.test(file.name)) return "archive";
+  return null;
+};
+
+/**
+ * Upload an audio file as a new entry and queue its transcription
+ */
+export const importAudioFile = async (
+  file: File,
+  userId: string,
+  options: AudioImportOptions
+): Promise<Entry> => {
+  const type = normalizeAudioType(file.type, file.name);
+  if (!type) {
+    throw new Error("Unsupported audio format");
+  }
+  if (file.size > MAX_AUDIO_BYTES) {
+    throw new Error("File is larger than 50 MB");
+  }
+
+  const duration = await probeAudioDuration(file);
+  const entry = await ApiService.createEntryFromRecording({
+    id: crypto.randomUUID(),
+    userId,
+    // Re-typed so the upload uses the bucket's MIME type
+    blob: new Blob([file], { type }),
+    duration: Math.round(duration),
+    language: options.language,
+    identifySpeakers: options.identifySpeakers,
+    title: file.name.replace(/\.[^.]+$/, ""),
+    createdAt: new Date(file.lastModified || Date.now()).toISOString(),
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+  });
+
+  if (!entry) {
+    throw new Error("Upload failed. Please try again.");
+  }
+  return entry;
+};
+
+interface ArchivedEntry {
+  entry: Entry;
+  audio?: Blob;
+}
+
+const isEntry = (value: unknown): value is Entry =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Entry).id === "string" &&
+  typeof (value as Entry).title === "string" &&
+  typeof (value as Entry).created_at === "string";
+
+const parseEntries = (json: string): Entry[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : [parsed];
+  if (!entries.every(isEntry)) {
+    throw new Error("File is not a Janus Arc export");
+  }
+  return entries;
+};
+
+// Entries and their audio from an export ZIP: entries/<folder>/entry.json + audio.*
+const readArchiveEntries = async (file: File): Promise<ArchivedEntry[]> => {
+  if (/\.json$/i.test(file.name)) {
+    return parseEntries(await file.text()).map((entry) => ({ entry }));
+  }
+
+  const files = await readZip(file);
+  const archived: ArchivedEntry[] = [];
+
+  for (const entryFile of files.filter((f) => f.name.endsWith("/entry.json"))) {
+    const folder = entryFile.name.slice(0, -"entry.json".length);
+    const [entry] = parseEntries(await new Blob([entryFile.data]).text());
+    const audio = files.find(
+      (f) =>
+        f.name.startsWith(`${folder}audio.`) &&
+        !f.name.slice(folder.length).includes("/")
+    );
+    archived.push({
+      entry,
+      audio: audio
+        ? new Blob([audio.data], {
+            type: normalizeAudioType("", audio.name) ?? "audio/webm",
+          })
+        : undefined,
+    });
+  }
+
+  if (archived.length === 0) {
+    throw new Error("No entries found in this archive");
+  }
+  return archived;
+};
+
+/**
+ * Restore the entries of an export, with their tags and audio
+ */
+export const importArchive = async (
+  file: File,
+  userId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<ArchiveImportResult> => {
+  const archived = await readArchiveEntries(file);
+  const result: ArchiveImportResult = { restored: 0, skipped: 0, failed: 0 };
+  const tags = await ApiService.fetchTags(userId);
+
+  const ensureTag = async (name: string): Promise<Tag | null> => {
+    const existing = tags.find(
+      (tag) => tag.name.toLowerCase() === name.toLowerCase()
+    );
+    if (existing) return existing;
+
+    const created = await ApiService.createTag(userId, name);
+    if (created) tags.push(created);
+    return created;
+  };
+
+  for (const [index, { entry, audio }] of archived.entries()) {
+    onProgress?.(index, archived.length);
+
+    const audioFileName = audio
+      ? `recording_${entry.id}.${audioFileExtension(audio.type)}`
+      : null;
+    // Never overwrites: an existing file belongs to an entry that may still exist
+    const uploadedPath =
+      audio && audioFileName
+        ? await ApiService.uploadAudio(audio, audioFileName, userId)
+        : null;
+
+    let audioPath = uploadedPath;
+    const storedPath = audioFileName
+      ? `${userId}/${audioFileName}`
+      : entry.original_audio_url;
+    if (
+      !audioPath &&
+      storedPath?.startsWith(`${userId}/`) &&
+      (await ApiService.audioExists(storedPath))
+    ) {
+      // Restoring into the same account while the recording is still stored
+      audioPath = storedPath;
+    }
+
+    const hasTranscript = !!entry.transcription;
+    const restored = await ApiService.restoreEntry({
+      id: entry.id,
+      user_id: userId,
+      title: entry.title,
+      title_source: entry.title_source,
+      original_audio_url: audioPath ?? undefined,
+      processed_audio_url: audioPath ?? undefined,
+      audio_mime_type: audioPath
+        ? normalizeAudioType(audio?.type ?? "", audioPath)
+        : null,
+      waveform_peaks: entry.waveform_peaks ?? null,
+      transcription: entry.transcription,
+      transcription_source: entry.transcription_source,
+      transcript_segments: entry.transcript_segments ?? null,
+      transcription_status: hasTranscript ? "completed" : "idle",
+      transcription_error: null,
+      identify_speakers: entry.identify_speakers,
+      speaker_names: entry.speaker_names,
+      language: entry.language,
+      duration: entry.duration,
+      created_at: entry.created_at,
+    });
+
+    if (restored !== "restored" && uploadedPath) {
+      // Nothing references the upload when the id was taken or the insert failed
+      await ApiService.removeAudio(uploadedPath);
+    }
+    if (!restored) {
+      result.failed++;
+      continue;
+    }
+    if (restored === "skipped") {
+      result.skipped++;
+      continue;
+    }
+
+    result.restored++;
+    for (const tag of entry.tags || []) {
+      const userTag = await ensureTag(tag.name);
+      if (userTag) {
+        await ApiService.addTagToEntry(
+          { ...entry, user_id: userId },
+          userTag.id
+        );
+      }
+    }
+  }
+
+  onProgress?.(archived.length, archived.length);
+  return result;
+};
@@ -0,0 +1,212 @@
+import { ApiService } from "./api";
+import type { OutboxRecording } from "../types";
+
+/**
+ * IndexedDB outbox so recordings survive network drops and page reloads
+ *
+ * Recordings are written here first and uploaded by `syncOutbox`, which runs
+ * after saving, on load and whenever the browser comes back online.
+ * "draft" items are recordings still open in the Recorder (auto-save); drafts
+ * left over from a previous page load are promoted to "pending" and synced.
+ * After `MAX_SYNC_ATTEMPTS` failed uploads a recording is only retried when the
+ * user asks for it with `retryOutboxItem`.
+ */
+
+const DB_NAME = "janusarc-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "recordings";
+
+export const MAX_SYNC_ATTEMPTS = 5;
+
+// Drafts created before this page load belong to a Recorder that no longer exists
+const sessionStartedAt = new Date().toISOString();
+
+type OutboxListener = () => void;
+const listeners = new Set<OutboxListener>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const activeSyncs = new Map<string, Promise<number>>();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: "id",
+        });
+        store.createIndex("userId", "userId");
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request in its own transaction and resolve with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/**
+ * Listen for outbox changes; returns a function that removes the listener
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Store a recording in the outbox
+ */
+export const addToOutbox = async (
+  recording: Omit<OutboxRecording, "id" | "attempts" | "lastError">
+): Promise<OutboxRecording> => {
+  const item: OutboxRecording = {
+    ...recording,
+    id: crypto.randomUUID(),
+    attempts: 0,
+    lastError: null,
+  };
+  await withStore("readwrite", (store) => store.put(item));
+  notify();
+  return item;
+};
+
+/**
+ * Update fields of a stored recording
+ */
+export const updateOutboxItem = async (
+  id: string,
+  update: Partial<Omit<OutboxRecording, "id">>
+): Promise<void> => {
+  const existing = await withStore<OutboxRecording | undefined>(
+    "readonly",
+    (store) => store.get(id)
+  );
+  if (!existing) return;
+
+  await withStore("readwrite", (store) => store.put({ ...existing, ...update }));
+  notify();
+};
+
+/**
+ * Let automatic syncing pick up a recording that failed too often, then sync
+ */
+export const retryOutboxItem = async (
+  id: string,
+  userId: string
+): Promise<number> => {
+  await updateOutboxItem(id, { attempts: 0, lastError: null });
+  // A run already in progress read the recording before the reset and skips it
+  await activeSyncs.get(userId);
+  return syncOutbox(userId);
+};
+
+/**
+ * Remove a recording from the outbox
+ */
+export const removeFromOutbox = async (id: string): Promise<void> => {
+  await withStore("readwrite", (store) => store.delete(id));
+  notify();
+};
+
+/**
+ * Remove all of a user's recordings from the outbox, drafts included
+ */
+export const clearOutbox = async (userId: string): Promise<void> => {
+  const ids = await withStore<IDBValidKey[]>("readonly", (store) =>
+    store.index("userId").getAllKeys(userId)
+  );
+  for (const id of ids) {
+    await withStore("readwrite", (store) => store.delete(id));
+  }
+  notify();
+};
+
+/**
+ * List a user's recordings that have not been uploaded yet, oldest first
+ */
+export const listOutbox = async (
+  userId: string
+): Promise<OutboxRecording[]> => {
+  try {
+    const items = await withStore<OutboxRecording[]>("readonly", (store) =>
+      store.index("userId").getAll(userId)
+    );
+    return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error("Error reading outbox:", error);
+    return [];
+  }
+};
+
+/**
+ * Upload every pending recording of the user.
+ * Concurrent calls for the same user share the same run. Returns the number of
+ * synced recordings.
+ */
+export const syncOutbox = (userId: string): Promise<number> => {
+  let sync = activeSyncs.get(userId);
+  if (!sync) {
+    sync = runSync(userId).finally(() => {
+      activeSyncs.delete(userId);
+    });
+    activeSyncs.set(userId, sync);
+  }
+  return sync;
+};
+
+const runSync = async (userId: string): Promise<number> => {
+  let synced = 0;
+
+  for (const item of await listOutbox(userId)) {
+    if (item.status === "draft") {
+      if (item.createdAt >= sessionStartedAt) continue;
+      await updateOutboxItem(item.id, { status: "pending" });
+    }
+
+    if (item.attempts >= MAX_SYNC_ATTEMPTS) continue;
+
+    // Stop early instead of failing every remaining item while offline
+    if (!navigator.onLine) break;
+
+    const entry = await ApiService.createEntryFromRecording(item);
+    if (entry) {
+      await removeFromOutbox(item.id);
+      synced++;
+    } else {
+      const attempts = item.attempts + 1;
+      await updateOutboxItem(item.id, {
+        attempts,
+        lastError:
+          attempts >= MAX_SYNC_ATTEMPTS
+            ? `Upload failed ${attempts} times. It will not be retried automatically.`
+            : "Upload failed. Will retry when online.",
+      });
+    }
+  }
+
+  if (synced > 0) {
+    console.log(`Synced ${synced} recording(s) from the outbox`);
+  }
+  return synced;
+};
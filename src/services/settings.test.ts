@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_SCHEMA_VERSION,
+  migrateSettings,
+} from "./settings";
+
+// The real ApiService creates a Supabase client on import
+vi.mock("./api", () => ({
+  ApiService: {
+    getSupportedLanguages: () => [
+      { code: "eng", name: "English" },
+      { code: "fra", name: "French" },
+      { code: "cmn", name: "Chinese (Mandarin)" },
+    ],
+  },
+}));
+
+describe("migrateSettings", () => {
+  it("keeps current settings as they are", () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      defaultLanguage: "fra",
+      notifications: false,
+    };
+
+    expect(migrateSettings(settings, SETTINGS_SCHEMA_VERSION)).toEqual(
+      settings
+    );
+  });
+
+  it("renames Chinese in settings from before version 2", () => {
+    expect(migrateSettings({ defaultLanguage: "zho" }, 1).defaultLanguage).toBe(
+      "cmn"
+    );
+  });
+
+  it("falls back to the defaults for missing, invalid or unsupported values", () => {
+    expect(
+      migrateSettings(
+        {
+          defaultLanguage: "xyz",
+          notifications: "no",
+          highQualityAudio: false,
+        },
+        SETTINGS_SCHEMA_VERSION
+      )
+    ).toEqual({ ...DEFAULT_SETTINGS, highQualityAudio: false });
+    expect(migrateSettings(null, 1)).toEqual(DEFAULT_SETTINGS);
+    expect(migrateSettings("corrupt", 1)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it("drops keys it does not know", () => {
+    expect(
+      migrateSettings(
+        { ...DEFAULT_SETTINGS, theme: "dark" },
+        SETTINGS_SCHEMA_VERSION
+      )
+    ).toEqual(DEFAULT_SETTINGS);
+  });
+});
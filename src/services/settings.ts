@@ -0,0 +1,162 @@
+import { ApiService } from "./api";
+import type { UserSettings, UserSettingsRecord } from "../types";
+
+/**
+ * User settings: defaults, schema migrations and the per-device cache
+ *
+ * Settings are stored in `user_settings` so they follow the user across
+ * devices, and cached in localStorage so the app starts with them before the
+ * server answers. Every stored copy records the schema version it was written
+ * with and is migrated when read. Settings that older versions of the app kept
+ * only in this browser are uploaded the first time the user signs in here,
+ * unless the account already has synced settings.
+ */
+
+// Version 1: the unversioned settings kept in localStorage only
+// Version 2: synced; Chinese is "cmn" like the transcription languages
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+const LEGACY_SETTINGS_KEY = "janusarc-settings";
+const cacheKey = (userId: string) => `janusarc-settings:${userId}`;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  defaultLanguage: "eng",
+  autoDetectLanguage: true,
+  notifications: true,
+  highQualityAudio: true,
+  autoSaveRecordings: true,
+  identifySpeakers: false,
+};
+
+const LANGUAGE_ALIASES: { [code: string]: string } = {
+  zho: "cmn",
+};
+
+/**
+ * Bring settings written by any schema version up to date.
+ * Unknown keys are dropped and invalid values fall back to the defaults.
+ */
+export const migrateSettings = (
+  stored: unknown,
+  schemaVersion: number
+): UserSettings => {
+  const values = (
+    typeof stored === "object" && stored !== null ? stored : {}
+  ) as Partial<Record<keyof UserSettings, unknown>>;
+
+  const pick = <K extends keyof UserSettings>(key: K): UserSettings[K] =>
+    typeof values[key] === typeof DEFAULT_SETTINGS[key]
+      ? (values[key] as UserSettings[K])
+      : DEFAULT_SETTINGS[key];
+
+  let defaultLanguage = pick("defaultLanguage");
+  if (schemaVersion < 2) {
+    defaultLanguage = LANGUAGE_ALIASES[defaultLanguage] || defaultLanguage;
+  }
+  if (
+    !ApiService.getSupportedLanguages().some(
+      (language) => language.code === defaultLanguage
+    )
+  ) {
+    defaultLanguage = DEFAULT_SETTINGS.defaultLanguage;
+  }
+
+  return {
+    defaultLanguage,
+    autoDetectLanguage: pick("autoDetectLanguage"),
+    notifications: pick("notifications"),
+    highQualityAudio: pick("highQualityAudio"),
+    autoSaveRecordings: pick("autoSaveRecordings"),
+    identifySpeakers: pick("identifySpeakers"),
+  };
+};
+
+export const fromSettingsRecord = (record: UserSettingsRecord): UserSettings =>
+  migrateSettings(record.settings, record.schema_version);
+
+const readStorage = (key: string): unknown => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error("Failed to read saved settings:", error);
+    return null;
+  }
+};
+
+/**
+ * The settings last seen on this device, if any
+ */
+export const getCachedSettings = (userId: string): UserSettings | null => {
+  const cached = readStorage(cacheKey(userId)) as {
+    version: number;
+    settings: unknown;
+  } | null;
+  return cached ? migrateSettings(cached.settings, cached.version) : null;
+};
+
+export const cacheSettings = (userId: string, settings: UserSettings): void => {
+  try {
+    localStorage.setItem(
+      cacheKey(userId),
+      JSON.stringify({ version: SETTINGS_SCHEMA_VERSION, settings })
+    );
+  } catch (error) {
+    console.error("Failed to cache settings:", error);
+  }
+};
+
+export const clearCachedSettings = (userId: string): void => {
+  localStorage.removeItem(cacheKey(userId));
+  localStorage.removeItem(LEGACY_SETTINGS_KEY);
+};
+
+/**
+ * Load the user's settings from the server, uploading this device's settings
+ * when the account has none yet
+ */
+export const loadUserSettings = async (
+  userId: string
+): Promise<UserSettings> => {
+  const record = await ApiService.fetchUserSettings(userId);
+  if (record) {
+    const settings = fromSettingsRecord(record);
+    cacheSettings(userId, settings);
+    if (record.schema_version < SETTINGS_SCHEMA_VERSION) {
+      await ApiService.saveUserSettings(
+        userId,
+        settings,
+        SETTINGS_SCHEMA_VERSION
+      );
+    }
+    return settings;
+  }
+
+  const legacy = readStorage(LEGACY_SETTINGS_KEY);
+  const settings =
+    getCachedSettings(userId) ??
+    (legacy ? migrateSettings(legacy, 1) : DEFAULT_SETTINGS);
+
+  // Never overwrites synced settings, in case the fetch failed
+  const uploaded = await ApiService.saveUserSettings(
+    userId,
+    settings,
+    SETTINGS_SCHEMA_VERSION,
+    true
+  );
+  if (uploaded) localStorage.removeItem(LEGACY_SETTINGS_KEY);
+
+  cacheSettings(userId, settings);
+  return settings;
+};
+
+/**
+ * Save settings on this device and for every other device of the user
+ */
+export const saveUserSettings = async (
+  userId: string,
+  settings: UserSettings
+): Promise<boolean> => {
+  cacheSettings(userId, settings);
+  return ApiService.saveUserSettings(userId, settings, SETTINGS_SCHEMA_VERSION);
+};
@@ -20,9 +20,21 @@ export type Database = {
           id: string;
           user_id: string;
           title: string;
+          title_source: "auto" | "generated" | "manual";
           original_audio_url: string | null;
           processed_audio_url: string | null;
           transcription: string | null;
+          transcription_preview: string | null;
+          transcription_length: number | null;
+          transcription_source: "asr" | "manual";
+          transcript_segments:
+            | { text: string; start: number; end: number; speaker?: string }[]
+            | null;
+          transcription_status: "idle" | "processing" | "completed" | "failed";
+          transcription_error: string | null;
+          identify_speakers: boolean;
+          speaker_names: { [speakerId: string]: string };
+          language: string | null;
           duration: number | null;
           created_at: string;
           updated_at: string;
@@ -31,9 +43,23 @@ export type Database = {
           id?: string;
           user_id: string;
           title: string;
+          title_source?: "auto" | "generated" | "manual";
           original_audio_url?: string | null;
           processed_audio_url?: string | null;
           transcription?: string | null;
+          transcription_source?: "asr" | "manual";
+          transcript_segments?:
+            | { text: string; start: number; end: number; speaker?: string }[]
+            | null;
+          transcription_status?:
+            | "idle"
+            | "processing"
+            | "completed"
+            | "failed";
+          transcription_error?: string | null;
+          identify_speakers?: boolean;
+          speaker_names?: { [speakerId: string]: string };
+          language?: string | null;
           duration?: number | null;
           created_at?: string;
           updated_at?: string;
@@ -42,9 +68,23 @@ export type Database = {
           id?: string;
           user_id?: string;
           title?: string;
+          title_source?: "auto" | "generated" | "manual";
           original_audio_url?: string | null;
           processed_audio_url?: string | null;
           transcription?: string | null;
+          transcription_source?: "asr" | "manual";
+          transcript_segments?:
+            | { text: string; start: number; end: number; speaker?: string }[]
+            | null;
+          transcription_status?:
+            | "idle"
+            | "processing"
+            | "completed"
+            | "failed";
+          transcription_error?: string | null;
+          identify_speakers?: boolean;
+          speaker_names?: { [speakerId: string]: string };
+          language?: string | null;
           duration?: number | null;
           created_at?: string;
           updated_at?: string;
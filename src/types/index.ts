@@ -12,16 +12,215 @@ export interface Entry {
   id: string;
   user_id: string;
   title: string;
+  title_source?: TitleSource;
   original_audio_url?: string;
   processed_audio_url?: string;
+  // MIME type of the stored recording, e.g. "audio/webm" or "audio/mp4"
+  audio_mime_type?: string | null;
+  // Peak levels (0 to 1) across the recording, drawn as its waveform
+  waveform_peaks?: number[] | null;
   transcription?: string;
+  transcription_preview?: string | null;
+  transcription_length?: number | null;
+  transcription_source?: TranscriptionSource;
+  transcript_segments?: TranscriptSegment[] | null;
+  identify_speakers?: boolean;
+  speaker_names?: SpeakerNames;
+  tags?: Tag[];
+  transcription_status?: ProcessingStatus;
+  transcription_error?: string | null;
+  language?: string;
   duration?: number;
+  // Set while the entry is in the trash
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// How the current title / transcript of an entry was produced.
+// "auto" is the timestamp placeholder, "generated" is written from the transcript
+export type TitleSource = "auto" | "generated" | "manual";
+export type TranscriptionSource = "asr" | "manual";
+
+// A timed piece of the transcript (a word, or a phrase when the provider
+// has no word timing), in seconds from the start of the recording
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+  // Speaker id such as "speaker_0" in diarized transcripts
+  speaker?: string;
+}
+
+// Display names for the speakers of a diarized transcript, keyed by speaker id
+export type SpeakerNames = { [speakerId: string]: string };
+
+// The full transcript of an entry, loaded on demand
+export type EntryTranscript = Pick<
+  Entry,
+  "transcription" | "transcript_segments"
+>;
+
+// A version of an entry's title or transcript
+export interface EntryRevision {
+  id: string;
+  entry_id: string;
+  user_id: string;
+  field: "title" | "transcription";
+  content: string | null;
+  source: TitleSource | TranscriptionSource;
+  // Word timings of an ASR transcript version
+  transcript_segments?: TranscriptSegment[] | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Keyset pagination cursor: the last entry of the previous page
+export interface EntryCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface EntryPage {
+  entries: Entry[];
+  nextCursor: EntryCursor | null;
+}
+
+// Structured summary generated from an entry's transcript
+export interface EntryInsights {
+  entry_id: string;
+  user_id: string;
+  status: Exclude<ProcessingStatus, "idle">;
+  tldr: string | null;
+  decisions: string[];
+  action_items: string[];
+  open_questions: string[];
+  error: string | null;
+  model: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Periodic report aggregated from the entries recorded in a week or a month
+export type DigestPeriod = "week" | "month";
+
+export interface DigestTagCount {
+  name: string;
+  count: number;
+}
+
+export interface DigestActionItem {
+  entry_id: string;
+  text: string;
+}
+
+export interface DigestHighlight {
+  entry_id: string;
+  title: string;
+  created_at: string;
+  summary: string | null;
+}
+
+export interface Digest {
+  id: string;
+  user_id: string;
+  period: DigestPeriod;
+  // Local period bounds, end exclusive
+  period_start: string;
+  period_end: string;
+  status: Exclude<ProcessingStatus, "idle">;
+  entry_count: number;
+  total_duration: number;
+  summary: string | null;
+  themes: string[];
+  tag_counts: DigestTagCount[];
+  action_items: DigestActionItem[];
+  highlights: DigestHighlight[];
+  error: string | null;
+  model: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Progress of back-filling titles for entries that still have a placeholder
+export interface TitleBackfillResult {
+  updated: number;
+  skipped: number;
+  failed: number;
+  // Placeholder entries after `cursor`, the last entry this batch tried
+  remaining: number;
+  cursor: EntryCursor | null;
+}
+
+// What was removed when deleting all recordings or the whole account
+export interface DataDeletionResult {
+  entries: number;
+  files: number;
+}
+
+// Finding of the storage reconciliation: a file without an entry, or an
+// entry whose file is gone
+export type StorageIssueKind = "orphaned_file" | "missing_file";
+
+export interface StorageIssue {
+  id: string;
+  user_id: string;
+  issue: StorageIssueKind;
+  path: string;
+  entry_id: string | null;
+  size: number | null;
+  detected_at: string;
+  entry?: { title: string } | null;
+}
+
+// Audio file of a deleted entry that is still waiting to be removed
+export interface StorageDeletion {
+  id: string;
+  user_id: string;
+  path: string;
+  attempts: number;
+  run_after: string;
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface StorageRepairResult {
+  queued_files: number;
+  detached_entries: number;
+}
+
+// User-defined label for categorizing entries (fundraising, hiring, ...)
+export interface Tag {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+}
+
+// Narrow the entry list; tag filters match entries with any of the tags
+export interface EntryFilters {
+  // Entries with any of these tags; an empty list matches no entry
+  tagIds?: string[];
+  dateFrom?: string;
+  dateTo?: string;
+  minDuration?: number;
+  maxDuration?: number;
+}
+
+export interface EntrySearchFilters extends EntryFilters {
+  limit?: number;
+}
+
+// Search match with a snippet whose matches are wrapped in [[ and ]]
+export interface EntrySearchResult extends Entry {
+  rank: number;
+  snippet: string;
+}
+
 export interface AudioRecordingState {
   isRecording: boolean;
+  // Recording is paused; isRecording stays true until it is stopped
+  isPaused: boolean;
   isLoading: boolean;
   isPlaying: boolean;
   audioBlob: Blob | null;
@@ -29,13 +228,53 @@ export interface AudioRecordingState {
   error: string | null;
 }
 
+// Recording waiting in the offline outbox to be uploaded
+export interface OutboxRecording {
+  id: string;
+  userId: string;
+  blob: Blob;
+  duration: number;
+  language: string;
+  identifySpeakers?: boolean;
+  // Imported files keep their file name until a title is generated
+  title?: string;
+  createdAt: string;
+  status: "draft" | "pending";
+  attempts: number;
+  lastError: string | null;
+}
+
 export interface ProcessAudioResponse {
-  transcription: string;
+  transcription: string | null;
   processedAudioUrl: string | null;
   success: boolean;
   error?: string;
 }
 
+// Preferences that follow the user across devices
+export interface UserSettings {
+  defaultLanguage: string;
+  autoDetectLanguage: boolean;
+  notifications: boolean;
+  highQualityAudio: boolean;
+  autoSaveRecordings: boolean;
+  identifySpeakers: boolean;
+}
+
+// Stored settings in the shape written by `schema_version` of the app
+export interface UserSettingsRecord {
+  user_id: string;
+  settings: unknown;
+  schema_version: number;
+  updated_at: string;
+}
+
+export interface SettingsContextType {
+  settings: UserSettings;
+  loading: boolean;
+  updateSettings: (settings: UserSettings) => Promise<boolean>;
+}
+
 export interface AuthContextType {
   user: User | null;
   loading: boolean;
@@ -63,4 +302,5 @@ export interface TranscriptionOptions {
   language?: string;
   model?: string;
   temperature?: number;
+  diarize?: boolean;
 }
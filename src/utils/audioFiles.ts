@@ -0,0 +1,140 @@
+/**
+ * Audio file types accepted by the `audio-recordings` bucket, and duration probing
+ *
+ * Browsers report the same format under different MIME types (`audio/x-wav`,
+ * `audio/x-m4a`, ...) and sometimes none at all, so types are normalized
+ * before upload and fall back to the file extension.
+ */
+
+const AUDIO_TYPE_EXTENSIONS: { [type: string]: string } = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/aac": "aac",
+  "audio/flac": "flac",
+};
+
+const AUDIO_TYPE_ALIASES: { [alias: string]: string } = {
+  "audio/x-wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/vnd.wave": "audio/wav",
+  "audio/mp3": "audio/mpeg",
+  "audio/x-mp3": "audio/mpeg",
+  "audio/x-m4a": "audio/mp4",
+  "audio/m4a": "audio/mp4",
+  "audio/x-aac": "audio/aac",
+  "audio/x-flac": "audio/flac",
+  "video/webm": "audio/webm",
+  "video/mp4": "audio/mp4",
+  "application/ogg": "audio/ogg",
+};
+
+const EXTENSION_TYPES: { [extension: string]: string } = {
+  webm: "audio/webm",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/ogg",
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  mp4: "audio/mp4",
+  aac: "audio/aac",
+  flac: "audio/flac",
+};
+
+// For the file picker's `accept` attribute
+export const AUDIO_FILE_ACCEPT = [
+  ...Object.keys(AUDIO_TYPE_EXTENSIONS),
+  ...Object.keys(EXTENSION_TYPES).map((extension) => `.${extension}`),
+].join(",");
+
+/**
+ * The bucket's MIME type for a file, or null when the format is not supported
+ */
+export const normalizeAudioType = (
+  type: string,
+  fileName = ""
+): string | null => {
+  const baseType = type.split(";")[0].trim().toLowerCase();
+  const normalized = AUDIO_TYPE_ALIASES[baseType] || baseType;
+  if (AUDIO_TYPE_EXTENSIONS[normalized]) return normalized;
+
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_TYPES[extension] ?? null;
+};
+
+export const audioFileExtension = (type: string): string =>
+  AUDIO_TYPE_EXTENSIONS[normalizeAudioType(type) ?? ""] ?? "webm";
+
+// Opus in WebM (Chrome, Edge, Firefox) or Ogg (older Firefox), then AAC in
+// MP4 for Safari and iOS, which record nothing else
+const RECORDING_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/ogg;codecs=opus",
+  "audio/mp4;codecs=mp4a.40.2",
+  "audio/mp4",
+];
+
+/**
+ * The best recording format this browser supports. Returns an empty string when
+ * it supports none of them or cannot say, so MediaRecorder uses its default,
+ * and null when the browser cannot record audio at all.
+ */
+export const pickRecordingMimeType = (): string | null => {
+  if (typeof MediaRecorder === "undefined") return null;
+  if (typeof MediaRecorder.isTypeSupported !== "function") return "";
+  return (
+    RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ??
+    ""
+  );
+};
+
+/**
+ * Whether this browser can play audio of the given type; unknown types are
+ * assumed playable
+ */
+export const canPlayAudioType = (type: string | null | undefined): boolean =>
+  !type || new Audio().canPlayType(type) !== "";
+
+/**
+ * Read the duration of an audio file in seconds, or 0 when it cannot be read
+ */
+export const probeAudioDuration = (blob: Blob): Promise<number> =>
+  new Promise((resolve) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    let settled = false;
+
+    const finish = (duration: number) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      audio.removeAttribute("src");
+      URL.revokeObjectURL(url);
+      resolve(isFinite(duration) && duration > 0 ? duration : 0);
+    };
+
+    const timeout = setTimeout(() => finish(0), 10000);
+
+    audio.addEventListener("loadedmetadata", () => {
+      if (isFinite(audio.duration)) {
+        finish(audio.duration);
+      } else {
+        // MediaRecorder WebM has no duration header; seeking past the end
+        // makes the browser scan the file and report it
+        audio.currentTime = Number.MAX_SAFE_INTEGER;
+      }
+    });
+    audio.addEventListener("durationchange", () => {
+      if (isFinite(audio.duration) && audio.duration > 0) {
+        finish(audio.duration);
+      }
+    });
+    audio.addEventListener("error", () => finish(0));
+
+    audio.preload = "metadata";
+    audio.src = url;
+  });
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { Digest } from "../types";
+import {
+  formatRecordingTime,
+  getPeriodBounds,
+  toDigestMarkdown,
+} from "./digests";
+
+const digest: Digest = {
+  id: "digest-1",
+  user_id: "user-1",
+  period: "week",
+  period_start: new Date(2025, 7, 11).toISOString(),
+  period_end: new Date(2025, 7, 18).toISOString(),
+  status: "completed",
+  entry_count: 2,
+  total_duration: 7190,
+  summary: "Closed the seed round.",
+  themes: ["Fundraising"],
+  tag_counts: [{ name: "hiring", count: 2 }],
+  action_items: [{ entry_id: "entry-1", text: "Send the deck" }],
+  highlights: [
+    {
+      entry_id: "entry-1",
+      title: "Investor call",
+      created_at: new Date(2025, 7, 12, 9).toISOString(),
+      summary: "The lead investor signed.",
+    },
+  ],
+  error: null,
+  model: "mock:mock",
+  created_at: new Date(2025, 7, 18).toISOString(),
+  updated_at: new Date(2025, 7, 18).toISOString(),
+};
+
+describe("getPeriodBounds", () => {
+  it("starts weeks on Monday", () => {
+    // Sunday, August 17th 2025
+    const { start, end } = getPeriodBounds("week", new Date(2025, 7, 17, 22));
+
+    expect(start).toEqual(new Date(2025, 7, 11));
+    expect(end).toEqual(new Date(2025, 7, 18));
+  });
+
+  it("shifts by whole periods across year boundaries", () => {
+    expect(getPeriodBounds("month", new Date(2025, 0, 31), -1)).toEqual({
+      start: new Date(2024, 11, 1),
+      end: new Date(2025, 0, 1),
+    });
+    expect(getPeriodBounds("week", new Date(2025, 11, 29), 1)).toEqual({
+      start: new Date(2026, 0, 5),
+      end: new Date(2026, 0, 12),
+    });
+  });
+});
+
+describe("formatRecordingTime", () => {
+  it("shows seconds, minutes or hours depending on the length", () => {
+    expect(formatRecordingTime(0)).toBe("0s");
+    expect(formatRecordingTime(29)).toBe("29s");
+    expect(formatRecordingTime(90)).toBe("2 min");
+    expect(formatRecordingTime(3900)).toBe("1h 5m");
+  });
+
+  it("carries rounded minutes into the hour", () => {
+    expect(formatRecordingTime(3599)).toBe("1h 0m");
+    expect(formatRecordingTime(7190)).toBe("2h 0m");
+  });
+});
+
+describe("toDigestMarkdown", () => {
+  it("lists the numbers, themes, action items and entries", () => {
+    const lines = toDigestMarkdown(digest).split("\n");
+
+    expect(lines[0]).toMatch(/^# Week of /);
+    expect(lines).toContain("- Entries: 2");
+    expect(lines).toContain("- Recording time: 2h 0m");
+    expect(lines).toContain("Closed the seed round.");
+    expect(lines).toContain("- Fundraising");
+    expect(lines).toContain("- hiring (2)");
+    expect(lines).toContain("- [ ] Send the deck");
+    expect(lines.find((line) => line.startsWith("### "))).toMatch(
+      /: Investor call$/
+    );
+  });
+
+  it("leaves out empty sections", () => {
+    const markdown = toDigestMarkdown({
+      ...digest,
+      summary: null,
+      themes: [],
+      tag_counts: [],
+      action_items: [],
+      highlights: [],
+    });
+
+    expect(markdown).not.toContain("##");
+    expect(markdown.endsWith("- Recording time: 2h 0m\n")).toBe(true);
+  });
+});
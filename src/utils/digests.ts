@@ -0,0 +1,120 @@
+import type { Digest, DigestPeriod } from "../types";
+
+/**
+ * Digest periods in local time and the Markdown export of a digest
+ *
+ * Weeks start on Monday. Period bounds are end exclusive, matching how
+ * digests are stored.
+ */
+
+export interface PeriodBounds {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * The week or month containing `date`, shifted by `offset` periods
+ */
+export const getPeriodBounds = (
+  period: DigestPeriod,
+  date: Date = new Date(),
+  offset = 0
+): PeriodBounds => {
+  if (period === "month") {
+    const start = new Date(date.getFullYear(), date.getMonth() + offset, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+    return { start, end };
+  }
+
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  const start = new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() - daysSinceMonday + offset * 7
+  );
+  const end = new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate() + 7
+  );
+  return { start, end };
+};
+
+export const formatPeriodLabel = (
+  period: DigestPeriod,
+  start: Date | string
+): string => {
+  const startDate = new Date(start);
+  if (period === "month") {
+    return startDate.toLocaleDateString([], {
+      month: "long",
+      year: "numeric",
+    });
+  }
+  return `Week of ${startDate.toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })}`;
+};
+
+export const formatRecordingTime = (seconds: number): string => {
+  // Round once so 59m 59s carries into the hour instead of reading "60 min"
+  const minutes = Math.round(seconds / 60);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes} min`;
+  return `${Math.round(seconds)}s`;
+};
+
+export const toDigestMarkdown = (digest: Digest): string => {
+  const formatDay = (value: string) =>
+    new Date(value).toLocaleDateString([], {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+  const lastDay = new Date(new Date(digest.period_end).getTime() - 1);
+
+  const lines = [
+    `# ${formatPeriodLabel(digest.period, digest.period_start)}`,
+    "",
+    `${formatDay(digest.period_start)} - ${formatDay(lastDay.toISOString())}`,
+    "",
+    `- Entries: ${digest.entry_count}`,
+    `- Recording time: ${formatRecordingTime(digest.total_duration)}`,
+  ];
+
+  if (digest.summary) {
+    lines.push("", "## Summary", "", digest.summary);
+  }
+
+  const themes = [
+    ...digest.themes,
+    ...digest.tag_counts.map((tag) => `${tag.name} (${tag.count})`),
+  ];
+  if (themes.length > 0) {
+    lines.push("", "## Recurring themes", "", ...themes.map((t) => `- ${t}`));
+  }
+
+  if (digest.action_items.length > 0) {
+    lines.push(
+      "",
+      "## Action items",
+      "",
+      ...digest.action_items.map((item) => `- [ ] ${item.text}`)
+    );
+  }
+
+  if (digest.highlights.length > 0) {
+    lines.push("", "## Entries");
+    digest.highlights.forEach((highlight) => {
+      lines.push(
+        "",
+        `### ${formatDay(highlight.created_at)}: ${highlight.title}`
+      );
+      if (highlight.summary) lines.push("", highlight.summary);
+    });
+  }
+
+  return `${lines.join("\n")}\n`;
+};
@@ -0,0 +1,18 @@
+/**
+ * Save generated content as a file through the browser's download prompt
+ */
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadTextFile = (
+  filename: string,
+  content: string,
+  type = "text/markdown"
+) => downloadBlob(filename, new Blob([content], { type }));
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  countActiveFilters,
+  parseFilterParams,
+  toEntryFilters,
+  toFilterSearchParams,
+  unknownTagNames,
+} from "./entryFilters";
+import type { EntryFilterParams } from "./entryFilters";
+import type { Tag } from "../types";
+
+const tag = (id: string, name: string): Tag => ({
+  id,
+  user_id: "user-1",
+  name,
+  created_at: "2025-07-01T00:00:00Z",
+});
+
+const tags = [tag("t1", "Fundraising"), tag("t2", "Hiring")];
+
+const noFilters: EntryFilterParams = {
+  tags: [],
+  from: null,
+  to: null,
+  duration: null,
+};
+
+describe("parseFilterParams", () => {
+  it("reads tags, dates and duration from the URL", () => {
+    expect(
+      parseFilterParams(
+        new URLSearchParams(
+          "tag=fundraising&tag=hiring&from=2025-07-01&to=2025-07-31&duration=short"
+        )
+      )
+    ).toEqual({
+      tags: ["fundraising", "hiring"],
+      from: "2025-07-01",
+      to: "2025-07-31",
+      duration: "short",
+    });
+  });
+
+  it("drops malformed dates and unknown durations", () => {
+    expect(
+      parseFilterParams(
+        new URLSearchParams("tag=&from=July&to=2025-7-31&duration=epic")
+      )
+    ).toEqual(noFilters);
+  });
+});
+
+describe("toFilterSearchParams", () => {
+  it("replaces filter params and keeps the others", () => {
+    const params = toFilterSearchParams(
+      new URLSearchParams("tag=old&view=compact"),
+      { ...noFilters, tags: ["hiring"], duration: "long" }
+    );
+
+    expect(params.toString()).toBe("view=compact&tag=hiring&duration=long");
+  });
+
+  it("round-trips through parseFilterParams", () => {
+    const filters: EntryFilterParams = {
+      tags: ["Fundraising", "Hiring"],
+      from: "2025-07-01",
+      to: "2025-07-31",
+      duration: "medium",
+    };
+
+    expect(
+      parseFilterParams(toFilterSearchParams(new URLSearchParams(), filters))
+    ).toEqual(filters);
+    expect(countActiveFilters(filters)).toBe(5);
+  });
+});
+
+describe("toEntryFilters", () => {
+  it("matches tag names regardless of case", () => {
+    expect(
+      toEntryFilters({ ...noFilters, tags: ["hiring", "FUNDRAISING"] }, tags)
+        .tagIds
+    ).toEqual(["t1", "t2"]);
+  });
+
+  it("leaves tags unfiltered without a tag filter", () => {
+    expect(toEntryFilters(noFilters, tags).tagIds).toBeUndefined();
+  });
+
+  it("matches no entry when no tag has the name", () => {
+    const filters = { ...noFilters, tags: ["Board"] };
+
+    expect(toEntryFilters(filters, tags).tagIds).toEqual([]);
+    expect(unknownTagNames(filters, tags)).toEqual(["Board"]);
+  });
+
+  it("keeps the known tags of a partly unknown filter", () => {
+    const filters = { ...noFilters, tags: ["Board", "hiring"] };
+
+    expect(toEntryFilters(filters, tags).tagIds).toEqual(["t2"]);
+    expect(unknownTagNames(filters, tags)).toEqual(["Board"]);
+  });
+
+  it("includes the whole last day of the date range", () => {
+    const filters = toEntryFilters(
+      { ...noFilters, from: "2025-07-01", to: "2025-07-31" },
+      tags
+    );
+
+    expect(filters.dateFrom).toBe(new Date(2025, 6, 1).toISOString());
+    expect(filters.dateTo).toBe(new Date(2025, 7, 1).toISOString());
+  });
+
+  it("turns durations into second bounds", () => {
+    expect(toEntryFilters({ ...noFilters, duration: "medium" }, tags)).toEqual({
+      tagIds: undefined,
+      dateFrom: undefined,
+      dateTo: undefined,
+      minDuration: 120,
+      maxDuration: 600,
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import type { EntryFilters, Tag } from "../types";
+
+/**
+ * Entry list filters as they appear in the /app URL, so filtered views can be bookmarked
+ *
+ * `?tag=fundraising&tag=hiring&from=2025-07-01&to=2025-07-31&duration=short`
+ * Tags are referenced by name and dates are whole local days (both inclusive).
+ */
+
+export type DurationFilter = "short" | "medium" | "long";
+
+export interface EntryFilterParams {
+  tags: string[];
+  from: string | null;
+  to: string | null;
+  duration: DurationFilter | null;
+}
+
+export const DURATION_FILTERS: {
+  value: DurationFilter;
+  label: string;
+  minDuration?: number;
+  maxDuration?: number;
+}[] = [
+  { value: "short", label: "Under 2 min", maxDuration: 120 },
+  { value: "medium", label: "2-10 min", minDuration: 120, maxDuration: 600 },
+  { value: "long", label: "Over 10 min", minDuration: 600 },
+];
+
+const FILTER_KEYS = ["tag", "from", "to", "duration"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const parseFilterParams = (
+  params: URLSearchParams
+): EntryFilterParams => {
+  const from = params.get("from");
+  const to = params.get("to");
+  const duration = DURATION_FILTERS.find(
+    (filter) => filter.value === params.get("duration")
+  );
+
+  return {
+    tags: params.getAll("tag").filter(Boolean),
+    from: from && DATE_PATTERN.test(from) ? from : null,
+    to: to && DATE_PATTERN.test(to) ? to : null,
+    duration: duration?.value ?? null,
+  };
+};
+
+/**
+ * Write filters into a copy of the URL params, keeping unrelated params
+ */
+export const toFilterSearchParams = (
+  params: URLSearchParams,
+  filters: EntryFilterParams
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  FILTER_KEYS.forEach((key) => next.delete(key));
+
+  filters.tags.forEach((tag) => next.append("tag", tag));
+  if (filters.from) next.set("from", filters.from);
+  if (filters.to) next.set("to", filters.to);
+  if (filters.duration) next.set("duration", filters.duration);
+  return next;
+};
+
+export const countActiveFilters = (filters: EntryFilterParams): number =>
+  filters.tags.length +
+  (filters.from ? 1 : 0) +
+  (filters.to ? 1 : 0) +
+  (filters.duration ? 1 : 0);
+
+/**
+ * Tag names in the URL that none of the user's tags has
+ */
+export const unknownTagNames = (
+  filters: EntryFilterParams,
+  tags: Tag[]
+): string[] =>
+  filters.tags.filter(
+    (name) => !tags.some((tag) => tag.name.toLowerCase() === name.toLowerCase())
+  );
+
+/**
+ * Resolve URL filters into query filters. Tag names the user does not have
+ * match nothing, so a filter on unknown tags only finds no entries.
+ */
+export const toEntryFilters = (
+  filters: EntryFilterParams,
+  tags: Tag[]
+): EntryFilters => {
+  const tagNames = filters.tags.map((name) => name.toLowerCase());
+  const duration = DURATION_FILTERS.find(
+    (filter) => filter.value === filters.duration
+  );
+
+  // Dates are local days; the end date includes the whole day
+  const dateTo = filters.to ? new Date(`${filters.to}T00:00:00`) : null;
+  dateTo?.setDate(dateTo.getDate() + 1);
+
+  return {
+    tagIds:
+      tagNames.length > 0
+        ? tags
+            .filter((tag) => tagNames.includes(tag.name.toLowerCase()))
+            .map((tag) => tag.id)
+        : undefined,
+    dateFrom: filters.from
+      ? new Date(`${filters.from}T00:00:00`).toISOString()
+      : undefined,
+    dateTo: dateTo?.toISOString(),
+    minDuration: duration?.minDuration,
+    maxDuration: duration?.maxDuration,
+  };
+};
@@ -0,0 +1,33 @@
+/**
+ * Language code mappings for transcription requests
+ */
+
+// Map ISO-639-1 (2-letter) codes to the ISO-639-3 (3-letter) codes used by ElevenLabs
+export const ISO_639_1_TO_3: { [key: string]: string } = {
+  en: "eng", // English
+  es: "spa", // Spanish
+  fr: "fra", // French
+  de: "deu", // German
+  it: "ita", // Italian
+  pt: "por", // Portuguese
+  ru: "rus", // Russian
+  ja: "jpn", // Japanese
+  ko: "kor", // Korean
+  zh: "cmn", // Chinese (Mandarin)
+  ar: "ara", // Arabic
+  hi: "hin", // Hindi
+  nl: "nld", // Dutch
+  pl: "pol", // Polish
+  sv: "swe", // Swedish
+  da: "dan", // Danish
+  no: "nor", // Norwegian
+  fi: "fin", // Finnish
+  tr: "tur", // Turkish
+  cs: "ces", // Czech
+  hu: "hun", // Hungarian
+  ro: "ron", // Romanian
+  bg: "bul", // Bulgarian
+  hr: "hrv", // Croatian
+  sk: "slk", // Slovak
+  sl: "slv", // Slovenian
+};
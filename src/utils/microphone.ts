@@ -0,0 +1,87 @@
+/**
+ * Microphone selection and recording quality
+ *
+ * Device ids differ per browser and site, so the chosen microphone is kept in
+ * localStorage rather than in the synced settings. When it is unplugged the
+ * browser's default microphone is used until it comes back.
+ */
+
+const MICROPHONE_KEY = "janusarc-microphone";
+
+export const getPreferredMicrophone = (): string | null =>
+  localStorage.getItem(MICROPHONE_KEY);
+
+export const setPreferredMicrophone = (deviceId: string | null): void => {
+  if (deviceId) {
+    localStorage.setItem(MICROPHONE_KEY, deviceId);
+  } else {
+    localStorage.removeItem(MICROPHONE_KEY);
+  }
+};
+
+/**
+ * Audio inputs of this device. Labels are empty until the user has allowed
+ * microphone access once.
+ */
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter(
+      (device) => device.kind === "audioinput" && device.deviceId
+    );
+  } catch (error) {
+    console.error("Error listing microphones:", error);
+    return [];
+  }
+};
+
+// High quality keeps the voice natural for listening back: 48 kHz, a higher
+// bitrate and only echo cancellation. Standard is tuned for speech: the
+// browser's noise suppression and gain control, at about a third of the size.
+const recordingConstraints = (highQuality: boolean): MediaTrackConstraints =>
+  highQuality
+    ? {
+        sampleRate: 48000,
+        channelCount: 1,
+        echoCancellation: true,
+        noiseSuppression: false,
+        autoGainControl: false,
+      }
+    : {
+        channelCount: 1,
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+      };
+
+export const recordingBitrate = (highQuality: boolean): number =>
+  highQuality ? 128000 : 48000;
+
+/**
+ * Open the preferred microphone, or the default one when it is not connected
+ */
+export const openMicrophone = async (
+  highQuality: boolean
+): Promise<MediaStream> => {
+  const constraints = recordingConstraints(highQuality);
+  const deviceId = getPreferredMicrophone();
+
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...constraints, deviceId: { exact: deviceId } },
+      });
+    } catch (error) {
+      if (
+        !(error instanceof Error) ||
+        !["NotFoundError", "OverconstrainedError"].includes(error.name)
+      ) {
+        throw error;
+      }
+      console.warn("Preferred microphone unavailable, using the default");
+    }
+  }
+
+  return navigator.mediaDevices.getUserMedia({ audio: constraints });
+};
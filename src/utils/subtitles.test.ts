@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { TranscriptSegment } from "../types";
+import { toSrt, toSubtitleCues, toVtt } from "./subtitles";
+
+const words = (
+  text: string,
+  start: number,
+  speaker?: string
+): TranscriptSegment[] =>
+  text.split(" ").map((word, index) => ({
+    text: word,
+    start: start + index * 0.5,
+    end: start + index * 0.5 + 0.4,
+    speaker,
+  }));
+
+describe("toSubtitleCues", () => {
+  it("ends cues at sentence ends and pauses", () => {
+    const cues = toSubtitleCues([
+      ...words("Hello there. How are", 0),
+      ...words("you doing", 5),
+    ]);
+
+    expect(cues).toEqual([
+      { start: 0, end: 0.9, text: "Hello there.", speaker: undefined },
+      { start: 1, end: 1.9, text: "How are", speaker: undefined },
+      { start: 5, end: 5.9, text: "you doing", speaker: undefined },
+    ]);
+  });
+
+  it("splits long runs of words into short cues", () => {
+    const cues = toSubtitleCues(
+      words(Array.from({ length: 30 }, () => "word").join(" "), 0)
+    );
+
+    expect(cues.length).toBeGreaterThan(1);
+    cues.forEach((cue) => expect(cue.end - cue.start).toBeLessThanOrEqual(6));
+    expect(cues.map((cue) => cue.text).join(" ")).toBe(
+      Array.from({ length: 30 }, () => "word").join(" ")
+    );
+  });
+
+  it("labels speakers by order of appearance unless renamed", () => {
+    const cues = toSubtitleCues(
+      [
+        ...words("Morning", 0, "speaker_3"),
+        ...words("Hi", 1, "speaker_1"),
+        ...words("Ready", 2, "speaker_3"),
+      ],
+      { speaker_1: "Dana" }
+    );
+
+    expect(cues.map((cue) => cue.speaker)).toEqual([
+      "Speaker 1",
+      "Dana",
+      "Speaker 1",
+    ]);
+  });
+
+  it("skips empty segments", () => {
+    expect(
+      toSubtitleCues([
+        { text: " ", start: 0, end: 0.1 },
+        { text: "Hi", start: 0.2, end: 0.4 },
+      ])
+    ).toEqual([{ start: 0.2, end: 0.4, text: "Hi", speaker: undefined }]);
+  });
+});
+
+describe("subtitle files", () => {
+  const cues = [
+    { start: 0, end: 1.25, text: "Hello there.", speaker: "Dana" },
+    { start: 3661.5, end: 3662, text: "Bye." },
+  ];
+
+  it("writes numbered SRT cues with comma milliseconds", () => {
+    expect(toSrt(cues)).toBe(
+      "1\n00:00:00,000 --> 00:00:01,250\nDana: Hello there.\n\n" +
+        "2\n01:01:01,500 --> 01:01:02,000\nBye.\n"
+    );
+  });
+
+  it("writes WebVTT cues with voice tags", () => {
+    expect(toVtt(cues)).toBe(
+      "WEBVTT\n\n" +
+        "00:00:00.000 --> 00:00:01.250\n<v Dana>Hello there.\n\n" +
+        "01:01:01.500 --> 01:01:02.000\nBye.\n"
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import type { SpeakerNames, TranscriptSegment } from "../types";
+
+/**
+ * SRT and WebVTT subtitles from transcript timings
+ *
+ * Word-level segments are grouped into readable cues: a cue ends at the end of
+ * a sentence, at a speaker change, at a pause, or when it gets too long.
+ */
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+const MAX_CUE_SECONDS = 6;
+const MAX_CUE_CHARS = 84;
+const MAX_PAUSE_SECONDS = 1;
+
+export const toSubtitleCues = (
+  segments: TranscriptSegment[],
+  speakerNames: SpeakerNames = {}
+): SubtitleCue[] => {
+  // "Speaker 1", "Speaker 2", ... in order of first appearance unless renamed
+  const speakerOrder = Array.from(
+    new Set(segments.map((segment) => segment.speaker).filter(Boolean))
+  );
+  const speakerLabel = (speaker?: string) =>
+    speaker
+      ? speakerNames[speaker] || `Speaker ${speakerOrder.indexOf(speaker) + 1}`
+      : undefined;
+
+  const cues: SubtitleCue[] = [];
+  let current: SubtitleCue | null = null;
+  let lastSegment: TranscriptSegment | null = null;
+
+  segments.forEach((segment) => {
+    const text = segment.text.trim();
+    if (!text) return;
+
+    const speaker = speakerLabel(segment.speaker);
+    const startsNewCue =
+      !current ||
+      !lastSegment ||
+      speaker !== current.speaker ||
+      /[.!?]$/.test(current.text) ||
+      segment.start - lastSegment.end > MAX_PAUSE_SECONDS ||
+      segment.end - current.start > MAX_CUE_SECONDS ||
+      current.text.length + text.length + 1 > MAX_CUE_CHARS;
+
+    if (startsNewCue || !current) {
+      current = { start: segment.start, end: segment.end, text, speaker };
+      cues.push(current);
+    } else {
+      current.text = `${current.text} ${text}`;
+      current.end = segment.end;
+    }
+    lastSegment = segment;
+  });
+
+  return cues;
+};
+
+const formatTimestamp = (seconds: number, separator: "," | ".") => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
+
+export const toSrt = (cues: SubtitleCue[]): string =>
+  cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(
+          cue.end,
+          ","
+        )}\n${cue.speaker ? `${cue.speaker}: ` : ""}${cue.text}\n`
+    )
+    .join("\n");
+
+export const toVtt = (cues: SubtitleCue[]): string =>
+  `WEBVTT\n\n${cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(
+          cue.end,
+          "."
+        )}\n${cue.speaker ? `<v ${cue.speaker}>` : ""}${cue.text}\n`
+    )
+    .join("\n")}`;
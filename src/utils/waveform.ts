@@ -0,0 +1,65 @@
+/**
+ * Waveform peaks and input levels
+ *
+ * Entries store a fixed number of peaks (0 to 1) computed once when the
+ * recording is saved, so the list draws waveforms without decoding audio.
+ */
+
+export const WAVEFORM_PEAK_COUNT = 100;
+
+/**
+ * The loudest sample of each of `count` equal slices of the recording,
+ * scaled so the loudest slice is 1. Returns null when the audio cannot be decoded.
+ */
+export const computeWaveformPeaks = async (
+  blob: Blob,
+  count: number = WAVEFORM_PEAK_COUNT
+): Promise<number[] | null> => {
+  if (typeof AudioContext === "undefined") return null;
+
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) =>
+      buffer.getChannelData(i)
+    );
+    const sliceLength = Math.max(1, Math.floor(buffer.length / count));
+
+    const peaks: number[] = [];
+    for (let slice = 0; slice < count; slice++) {
+      const start = slice * sliceLength;
+      const end = Math.min(start + sliceLength, buffer.length);
+      let peak = 0;
+      for (const samples of channels) {
+        for (let i = start; i < end; i++) {
+          const sample = Math.abs(samples[i]);
+          if (sample > peak) peak = sample;
+        }
+      }
+      peaks.push(peak);
+    }
+
+    const loudest = Math.max(...peaks);
+    return peaks.map((peak) =>
+      loudest > 0 ? Math.round((peak / loudest) * 100) / 100 : 0
+    );
+  } catch (error) {
+    console.warn("Could not compute waveform:", error);
+    return null;
+  } finally {
+    context.close();
+  }
+};
+
+/**
+ * Root mean square level (0 to 1) of an analyser's current time-domain samples
+ */
+export const readInputLevel = (
+  analyser: AnalyserNode,
+  samples: Float32Array<ArrayBuffer>
+): number => {
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return Math.sqrt(sum / samples.length);
+};
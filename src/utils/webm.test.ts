@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { makeWebmSeekable } from "./webm";
+
+// Minimal MediaRecorder-style WebM: unknown-size Segment and Clusters, no
+// Duration and no Cues, one track of SimpleBlocks with 20 ms frames
+
+const UNKNOWN_SIZE = [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff];
+
+const element = (id: number[], data: number[]) => [
+  ...id,
+  0x80 | data.length,
+  ...data,
+];
+
+const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+
+const simpleBlock = (relative: number) =>
+  element([0xa3], [0x81, ...uint16(relative), 0x80, 0x01, 0x02]);
+
+const cluster = (timecode: number, blocks: number[]) => [
+  0x1f,
+  0x43,
+  0xb6,
+  0x75,
+  ...UNKNOWN_SIZE,
+  ...element([0xe7], uint16(timecode)),
+  ...blocks.flatMap(simpleBlock),
+];
+
+const recording = (clusters: [number, number[]][]) =>
+  new Blob(
+    [
+      new Uint8Array([
+        ...element([0x1a, 0x45, 0xdf, 0xa3], [0x42, 0x82, 0x84, 0x77, 0x65]),
+        0x18,
+        0x53,
+        0x80,
+        0x67,
+        ...UNKNOWN_SIZE,
+        ...element(
+          [0x15, 0x49, 0xa9, 0x66],
+          element([0x2a, 0xd7, 0xb1], [0x0f, 0x42, 0x40])
+        ),
+        ...element(
+          [0x16, 0x54, 0xae, 0x6b],
+          element([0xae], element([0xd7], [1]))
+        ),
+        ...clusters.flatMap(([timecode, blocks]) => cluster(timecode, blocks)),
+      ]),
+    ],
+    { type: "audio/webm" }
+  );
+
+// Duration is the only float element in the rewritten file
+const readDuration = async (blob: Blob): Promise<number> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  for (let i = 0; i < bytes.length - 10; i++) {
+    if (bytes[i] === 0x44 && bytes[i + 1] === 0x89 && bytes[i + 2] === 0x01) {
+      return new DataView(bytes.buffer, i + 10, 8).getFloat64(0);
+    }
+  }
+  throw new Error("No Duration element");
+};
+
+// Minimal reader for the rewritten file, where every size is known
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean) => {
+  let length = 1;
+  while (!(bytes[offset] & (0x80 >> (length - 1)))) length++;
+  let value = keepMarker ? bytes[offset] : bytes[offset] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+};
+
+const readElement = (bytes: Uint8Array, offset: number) => {
+  const id = readVint(bytes, offset, true);
+  const size = readVint(bytes, offset + id.length, false);
+  const dataStart = offset + id.length + size.length;
+  return { id: id.value, dataStart, end: dataStart + size.value };
+};
+
+const children = (bytes: Uint8Array, start: number, end: number) => {
+  const found: ReturnType<typeof readElement>[] = [];
+  for (let offset = start; offset < end; ) {
+    const child = readElement(bytes, offset);
+    found.push(child);
+    offset = child.end;
+  }
+  return found;
+};
+
+const child = (
+  bytes: Uint8Array,
+  parent: { dataStart: number; end: number },
+  id: number
+) => children(bytes, parent.dataStart, parent.end).find((c) => c.id === id)!;
+
+const uintAt = (
+  bytes: Uint8Array,
+  element: { dataStart: number; end: number }
+) =>
+  bytes
+    .subarray(element.dataStart, element.end)
+    .reduce((value, byte) => value * 256 + byte, 0);
+
+const frames = (from: number, to: number) =>
+  Array.from({ length: (to - from) / 20 + 1 }, (_, i) => from + i * 20);
+
+describe("makeWebmSeekable", () => {
+  it("sets the duration to the last block plus one frame", async () => {
+    const seekable = await makeWebmSeekable(
+      recording([
+        [0, frames(0, 2480)],
+        [2500, frames(0, 2480)],
+        [5000, [0, 20, 40]],
+      ])
+    );
+
+    expect(seekable).not.toBeNull();
+    expect(await readDuration(seekable!)).toBe(5060);
+  });
+
+  it("takes the frame length from the previous Cluster when the last Cluster has one block", async () => {
+    const seekable = await makeWebmSeekable(
+      recording([
+        [0, frames(0, 2480)],
+        [2500, frames(0, 2480)],
+        [5000, [0]],
+      ])
+    );
+
+    expect(seekable).not.toBeNull();
+    expect(await readDuration(seekable!)).toBe(5020);
+  });
+
+  it("points the seek index at the Info, Tracks, Cues and every Cluster", async () => {
+    const seekable = await makeWebmSeekable(
+      recording([
+        [0, frames(0, 2480)],
+        [2500, frames(0, 2480)],
+        [5000, [0, 20]],
+      ])
+    );
+    const bytes = new Uint8Array(await seekable!.arrayBuffer());
+    const segment = readElement(bytes, readElement(bytes, 0).end);
+    const idAt = (position: number) =>
+      readElement(bytes, segment.dataStart + position).id;
+
+    const topLevel = children(bytes, segment.dataStart, segment.end);
+    expect(segment.end).toBe(bytes.length);
+    expect(topLevel.filter((c) => c.id === 0x1f43b675)).toHaveLength(3);
+
+    const seeks = children(bytes, topLevel[0].dataStart, topLevel[0].end).map(
+      (seek) => ({
+        id: uintAt(bytes, child(bytes, seek, 0x53ab)),
+        position: uintAt(bytes, child(bytes, seek, 0x53ac)),
+      })
+    );
+    expect(seeks.map((seek) => seek.id)).toEqual([
+      0x1549a966, 0x1654ae6b, 0x1c53bb6b,
+    ]);
+    seeks.forEach((seek) => expect(idAt(seek.position)).toBe(seek.id));
+
+    const cues = topLevel.find((c) => c.id === 0x1c53bb6b)!;
+    const cuePoints = children(bytes, cues.dataStart, cues.end).map(
+      (point) => ({
+        time: uintAt(bytes, child(bytes, point, 0xb3)),
+        position: uintAt(bytes, child(bytes, child(bytes, point, 0xb7), 0xf1)),
+      })
+    );
+    expect(cuePoints.map((point) => point.time)).toEqual([0, 2500, 5000]);
+    cuePoints.forEach((point) => {
+      const cluster = readElement(bytes, segment.dataStart + point.position);
+      expect(cluster.id).toBe(0x1f43b675);
+      expect(uintAt(bytes, child(bytes, cluster, 0xe7))).toBe(point.time);
+    });
+  });
+
+  it("leaves files that are already seekable alone", async () => {
+    const seekable = await makeWebmSeekable(recording([[0, frames(0, 100)]]));
+
+    expect(seekable).not.toBeNull();
+    expect(await makeWebmSeekable(seekable!)).toBeNull();
+  });
+
+  it("ignores files that are not WebM", async () => {
+    expect(
+      await makeWebmSeekable(new Blob([new Uint8Array([0x49, 0x44, 0x33])]))
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Make MediaRecorder WebM files seekable
+ *
+ * MediaRecorder streams WebM while recording, so the file has no Duration in
+ * its Info element, no Cues (seek index) and Segment and Clusters of unknown
+ * size. Browsers then report an infinite duration and seek by guessing. This
+ * rewrites the container without touching the audio: Segment and Clusters get
+ * their sizes, Info gets a Duration, and a Cues element pointing at every
+ * Cluster is added, with a SeekHead in front so players find it.
+ */
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Void: 0xec,
+};
+
+// Elements that end a Cluster of unknown size
+const SEGMENT_CHILD_IDS = new Set([
+  ID.SeekHead,
+  ID.Info,
+  ID.Tracks,
+  ID.Cluster,
+  ID.Cues,
+  0x1254c367, // Tags
+  0x1043a770, // Chapters
+  0x1941a469, // Attachments
+]);
+
+interface ElementHeader {
+  id: number;
+  // null when the size is unknown (all size bits set)
+  size: number | null;
+  dataStart: number;
+}
+
+interface ParsedCluster {
+  timecode: number;
+  body: Uint8Array;
+}
+
+// Variable-length integer: the number of leading zero bits gives the length
+const vintLength = (firstByte: number) => {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) return length;
+  }
+  throw new Error("Invalid EBML variable-length integer");
+};
+
+const readHeader = (bytes: Uint8Array, offset: number): ElementHeader => {
+  const idLength = vintLength(bytes[offset]);
+  let id = 0;
+  for (let i = 0; i < idLength; i++) id = id * 256 + bytes[offset + i];
+
+  const sizeOffset = offset + idLength;
+  const sizeLength = vintLength(bytes[sizeOffset]);
+  let size = bytes[sizeOffset] & (0xff >> sizeLength);
+  let unknown = size === 0xff >> sizeLength;
+  for (let i = 1; i < sizeLength; i++) {
+    const byte = bytes[sizeOffset + i];
+    size = size * 256 + byte;
+    unknown = unknown && byte === 0xff;
+  }
+
+  const dataStart = sizeOffset + sizeLength;
+  if (dataStart > bytes.length) throw new Error("Truncated EBML element");
+  return { id, size: unknown ? null : size, dataStart };
+};
+
+const readUint = (bytes: Uint8Array, start: number, end: number) => {
+  let value = 0;
+  for (let i = start; i < end; i++) value = value * 256 + bytes[i];
+  return value;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const encodeId = (id: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value % 256);
+  }
+  return new Uint8Array(bytes);
+};
+
+// Sizes are always written with 8 bytes so element sizes never depend on offsets
+const encodeSize = (size: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  let value = size;
+  for (let i = 7; i > 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] = 0x01;
+  return bytes;
+};
+
+const element = (id: number, ...payload: Uint8Array[]): Uint8Array =>
+  concat([
+    encodeId(id),
+    encodeSize(payload.reduce((length, part) => length + part.length, 0)),
+    ...payload,
+  ]);
+
+const uintElement = (id: number, value: number, length = 8): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  return element(id, bytes);
+};
+
+const floatElement = (id: number, value: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+/**
+ * Read a Cluster's children up to `end`, or up to the next Segment child when
+ * the size is unknown. Returns the timecode of the Cluster and the absolute
+ * timecodes of its blocks.
+ */
+const readCluster = (bytes: Uint8Array, start: number, end: number) => {
+  let offset = start;
+  let timecode = 0;
+  const blocks: number[] = [];
+
+  while (offset < end) {
+    let header: ElementHeader;
+    try {
+      header = readHeader(bytes, offset);
+    } catch {
+      break;
+    }
+    if (SEGMENT_CHILD_IDS.has(header.id)) break;
+    if (header.size === null) break;
+    const dataEnd = header.dataStart + header.size;
+    // A recording cut off mid-block ends at the last complete element
+    if (dataEnd > bytes.length) break;
+
+    if (header.id === ID.Timecode) {
+      timecode = readUint(bytes, header.dataStart, dataEnd);
+    } else if (header.id === ID.SimpleBlock || header.id === ID.BlockGroup) {
+      let blockStart = header.dataStart;
+      if (header.id === ID.BlockGroup) {
+        const block = readHeader(bytes, header.dataStart);
+        blockStart = block.id === ID.Block ? block.dataStart : -1;
+      }
+      if (blockStart >= 0) {
+        // Track number, then a signed 16-bit timecode relative to the Cluster
+        const timecodeOffset = blockStart + vintLength(bytes[blockStart]);
+        const relative =
+          (bytes[timecodeOffset] << 8) | bytes[timecodeOffset + 1];
+        blocks.push(
+          timecode + (relative > 0x7fff ? relative - 0x10000 : relative)
+        );
+      }
+    }
+    offset = dataEnd;
+  }
+
+  return { end: offset, timecode, blocks };
+};
+
+/**
+ * A seekable copy of a WebM recording, or null when the file is not WebM,
+ * cannot be parsed or already has a duration and a seek index
+ */
+export const makeWebmSeekable = async (blob: Blob): Promise<Blob | null> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  try {
+    const ebml = readHeader(bytes, 0);
+    if (ebml.id !== ID.EBML || ebml.size === null) return null;
+    const ebmlEnd = ebml.dataStart + ebml.size;
+
+    const segment = readHeader(bytes, ebmlEnd);
+    if (segment.id !== ID.Segment) return null;
+    const segmentEnd =
+      segment.size === null
+        ? bytes.length
+        : Math.min(segment.dataStart + segment.size, bytes.length);
+
+    let hasDuration = false;
+    let hasCues = false;
+    let trackNumber = 1;
+    const infoChildren: Uint8Array[] = [];
+    let tracks: Uint8Array | null = null;
+    const others: Uint8Array[] = [];
+    const clusters: ParsedCluster[] = [];
+    // The last block plus one frame is the duration. The frame length is the
+    // gap between the last two blocks, which may be in different Clusters.
+    let lastBlock: number | null = null;
+    let frameDuration = 0;
+
+    let offset = segment.dataStart;
+    while (offset < segmentEnd) {
+      const header = readHeader(bytes, offset);
+
+      if (header.id === ID.Cluster) {
+        const clusterEnd =
+          header.size === null
+            ? segmentEnd
+            : Math.min(header.dataStart + header.size, segmentEnd);
+        const cluster = readCluster(bytes, header.dataStart, clusterEnd);
+        clusters.push({
+          timecode: cluster.timecode,
+          body: bytes.subarray(header.dataStart, cluster.end),
+        });
+        for (const block of cluster.blocks) {
+          if (lastBlock !== null && block < lastBlock) continue;
+          if (lastBlock !== null) frameDuration = block - lastBlock;
+          lastBlock = block;
+        }
+        if (cluster.end <= header.dataStart) break;
+        offset = cluster.end;
+        continue;
+      }
+
+      if (header.size === null) return null;
+      const dataEnd = header.dataStart + header.size;
+      if (dataEnd > bytes.length) break;
+
+      if (header.id === ID.Info) {
+        for (let child = header.dataStart; child < dataEnd; ) {
+          const childHeader = readHeader(bytes, child);
+          const childEnd = childHeader.dataStart + (childHeader.size ?? 0);
+          if (childHeader.id === ID.Duration) {
+            hasDuration = true;
+          } else {
+            infoChildren.push(bytes.subarray(child, childEnd));
+          }
+          child = childEnd;
+        }
+      } else if (header.id === ID.Tracks) {
+        tracks = bytes.subarray(offset, dataEnd);
+        const entry = readHeader(bytes, header.dataStart);
+        if (entry.id === ID.TrackEntry && entry.size !== null) {
+          const entryEnd = entry.dataStart + entry.size;
+          for (let child = entry.dataStart; child < entryEnd; ) {
+            const childHeader = readHeader(bytes, child);
+            const childEnd = childHeader.dataStart + (childHeader.size ?? 0);
+            if (childHeader.id === ID.TrackNumber) {
+              trackNumber = readUint(bytes, childHeader.dataStart, childEnd);
+              break;
+            }
+            child = childEnd;
+          }
+        }
+      } else if (header.id === ID.Cues) {
+        hasCues = true;
+      } else if (header.id !== ID.SeekHead && header.id !== ID.Void) {
+        others.push(bytes.subarray(offset, dataEnd));
+      }
+      offset = dataEnd;
+    }
+
+    if (!tracks || clusters.length === 0 || lastBlock === null) return null;
+    if (hasDuration && hasCues) return null;
+
+    // Duration is a float in TimecodeScale units, the same as block timecodes
+    const info = element(
+      ID.Info,
+      ...infoChildren,
+      floatElement(ID.Duration, lastBlock + frameDuration)
+    );
+    const cuesFor = (positions: number[]) =>
+      element(
+        ID.Cues,
+        ...clusters.map((cluster, index) =>
+          element(
+            ID.CuePoint,
+            uintElement(ID.CueTime, cluster.timecode),
+            element(
+              ID.CueTrackPositions,
+              uintElement(ID.CueTrack, trackNumber, 1),
+              uintElement(ID.CueClusterPosition, positions[index])
+            )
+          )
+        )
+      );
+    const seekHeadFor = (infoAt: number, tracksAt: number, cuesAt: number) =>
+      element(
+        ID.SeekHead,
+        ...(
+          [
+            [ID.Info, infoAt],
+            [ID.Tracks, tracksAt],
+            [ID.Cues, cuesAt],
+          ] as const
+        ).map(([id, position]) =>
+          element(
+            ID.Seek,
+            element(ID.SeekID, encodeId(id)),
+            uintElement(ID.SeekPosition, position)
+          )
+        )
+      );
+
+    // Every size is fixed-width, so layout with placeholder offsets first
+    const othersLength = others.reduce(
+      (length, part) => length + part.length,
+      0
+    );
+    const seekHeadLength = seekHeadFor(0, 0, 0).length;
+    const infoAt = seekHeadLength;
+    const tracksAt = infoAt + info.length;
+    const cuesAt = tracksAt + tracks.length + othersLength;
+    const clusterHeaders = clusters.map((cluster) =>
+      concat([encodeId(ID.Cluster), encodeSize(cluster.body.length)])
+    );
+
+    const positions: number[] = [];
+    let clusterAt = cuesAt + cuesFor(clusters.map(() => 0)).length;
+    clusters.forEach((cluster, index) => {
+      positions.push(clusterAt);
+      clusterAt += clusterHeaders[index].length + cluster.body.length;
+    });
+
+    const segmentParts: BlobPart[] = [
+      seekHeadFor(infoAt, tracksAt, cuesAt),
+      info,
+      tracks,
+      ...others,
+      cuesFor(positions),
+    ];
+    clusters.forEach((cluster, index) => {
+      segmentParts.push(clusterHeaders[index], cluster.body);
+    });
+
+    return new Blob(
+      [
+        bytes.subarray(0, ebmlEnd),
+        encodeId(ID.Segment),
+        encodeSize(clusterAt),
+        ...segmentParts,
+      ],
+      { type: blob.type || "audio/webm" }
+    );
+  } catch (error) {
+    console.warn("Could not make WebM seekable:", error);
+    return null;
+  }
+};
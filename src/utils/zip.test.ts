@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createZip, readZip } from "./zip";
+
+describe("createZip and readZip", () => {
+  it("round-trips text and binary files", async () => {
+    const audio = new Uint8Array(1000).map((_, index) => index % 256);
+
+    const archive = await createZip([
+      { name: "entries.json", data: '{"title":"Café notes"}' },
+      { name: "audio/entry-1.webm", data: new Blob([audio]) },
+      { name: "Über uns.md", data: "" },
+    ]);
+    const files = await readZip(archive);
+
+    expect(files.map((file) => file.name)).toEqual([
+      "entries.json",
+      "audio/entry-1.webm",
+      "Über uns.md",
+    ]);
+    expect(await (files[0].data as Blob).text()).toBe('{"title":"Café notes"}');
+    expect(new Uint8Array(await (files[1].data as Blob).arrayBuffer())).toEqual(
+      audio
+    );
+    expect((files[2].data as Blob).size).toBe(0);
+  });
+
+  it("reads an empty archive", async () => {
+    expect(await readZip(await createZip([]))).toEqual([]);
+  });
+
+  it("rejects files that are not ZIP archives", async () => {
+    await expect(readZip(new Blob(["not a zip"]))).rejects.toThrow(
+      "Not a ZIP archive"
+    );
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Minimal ZIP archive writer and reader
+ *
+ * Files are stored without compression: audio is already compressed and the
+ * text files are small, so deflating would cost time for little gain. The
+ * reader also inflates deflated files, so archives that were unpacked and
+ * zipped again by the operating system still import.
+ */
+
+export interface ZipFile {
+  name: string;
+  data: Blob | string;
+  modifiedAt?: Date;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as stored in ZIP headers
+const toDosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+export const createZip = async (files: ZipFile[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data =
+      typeof file.data === "string"
+        ? encoder.encode(file.data)
+        : new Uint8Array(await file.data.arrayBuffer());
+    const crc = crc32(data);
+    const { time, date } = toDosDateTime(file.modifiedAt ?? new Date());
+
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true); // local file header signature
+    view.setUint16(4, 20, true); // version needed to extract
+    view.setUint16(6, 0x0800, true); // UTF-8 file names
+    view.setUint16(8, 0, true); // stored, no compression
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, data.length, true);
+    view.setUint32(22, data.length, true);
+    view.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true); // central directory signature
+    entryView.setUint16(4, 20, true); // version made by
+    entryView.setUint16(6, 20, true);
+    entryView.setUint16(8, 0x0800, true);
+    entryView.setUint16(10, 0, true);
+    entryView.setUint16(12, time, true);
+    entryView.setUint16(14, date, true);
+    entryView.setUint32(16, crc, true);
+    entryView.setUint32(20, data.length, true);
+    entryView.setUint32(24, data.length, true);
+    entryView.setUint16(28, name.length, true);
+    entryView.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    parts.push(header, data);
+    centralDirectory.push(entry);
+    offset += header.length + data.length;
+  }
+
+  const directorySize = centralDirectory.reduce(
+    (size, entry) => size + entry.length,
+    0
+  );
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true); // end of central directory signature
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], {
+    type: "application/zip",
+  });
+};
+
+/**
+ * List the files of a ZIP archive (ZIP64 archives are not supported)
+ */
+export const readZip = async (archive: Blob): Promise<ZipFile[]> => {
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits at the end, after an optional comment
+  let endOffset = bytes.length - 22;
+  while (endOffset >= 0 && view.getUint32(endOffset, true) !== 0x06054b50) {
+    endOffset--;
+  }
+  if (endOffset < 0) {
+    throw new Error("Not a ZIP archive");
+  }
+
+  const fileCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const files: ZipFile[] = [];
+
+  for (let i = 0; i < fileCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error("Corrupt ZIP archive");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+
+    const dataOffset =
+      headerOffset +
+      30 +
+      view.getUint16(headerOffset + 26, true) +
+      view.getUint16(headerOffset + 28, true);
+    const compressed = new Blob([
+      bytes.slice(dataOffset, dataOffset + compressedSize),
+    ]);
+
+    if (method === 0) {
+      files.push({ name, data: compressed });
+    } else if (method === 8) {
+      const inflated = compressed
+        .stream()
+        .pipeThrough(new DecompressionStream("deflate-raw"));
+      files.push({ name, data: await new Response(inflated).blob() });
+    } else {
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+  }
+
+  return files;
+};
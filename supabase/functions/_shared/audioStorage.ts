@@ -0,0 +1,60 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+/**
+ * Remove recordings from the `audio-recordings` bucket
+ */
+
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Remove files by their object names. Files that no longer exist count as
+ * removed, so retrying a partially failed call is safe.
+ */
+export const removeAudioFiles = async (
+  supabase: SupabaseClient,
+  paths: string[]
+): Promise<void> => {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from("audio-recordings")
+    .remove(paths);
+  if (error) {
+    throw new Error(`Removing audio failed: ${error.message}`);
+  }
+};
+
+/**
+ * Empty a user's `{user_id}/` folder and return the number of removed files.
+ * Lists from the start after every removal, so calling it again after a
+ * partial failure picks up what is left.
+ */
+export const removeUserAudio = async (
+  supabase: SupabaseClient,
+  userId: string
+): Promise<number> => {
+  const bucket = supabase.storage.from("audio-recordings");
+  let removed = 0;
+
+  for (;;) {
+    const { data: files, error: listError } = await bucket.list(userId, {
+      limit: LIST_PAGE_SIZE,
+    });
+    if (listError) {
+      throw new Error(`Listing audio failed: ${listError.message}`);
+    }
+    if (!files || files.length === 0) return removed;
+
+    const { data: deleted, error: removeError } = await bucket.remove(
+      files.map((file) => `${userId}/${file.name}`)
+    );
+    if (removeError) {
+      throw new Error(`Removing audio failed: ${removeError.message}`);
+    }
+    // Nothing removed means the listed files cannot be deleted by this client
+    if (!deleted || deleted.length === 0) {
+      throw new Error("Removing audio failed: no files were deleted");
+    }
+    removed += deleted.length;
+  }
+};
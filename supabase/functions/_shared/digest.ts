@@ -0,0 +1,200 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { createLanguageModelProvider } from "./languageModel.ts";
+
+/**
+ * Aggregate a period of entries into a stored digest report
+ *
+ * Counts, recording time, tags, action items and per-entry summaries come
+ * straight from the entries and their insights. The narrative summary and the
+ * recurring themes are written by the language model; if that fails the
+ * digest keeps its numbers and is marked failed so it can be retried.
+ */
+
+export type DigestPeriod = "week" | "month";
+
+export interface DigestRequest {
+  period: DigestPeriod;
+  periodStart: string;
+  periodEnd: string;
+}
+
+interface DigestEntry {
+  id: string;
+  title: string;
+  duration: number | null;
+  created_at: string;
+  transcription_preview: string | null;
+  tags: { name: string }[];
+  entry_insights: {
+    status: string;
+    tldr: string | null;
+    action_items: string[];
+  } | null;
+}
+
+// Enough for a month of daily notes while keeping the prompt bounded
+const MAX_ENTRIES = 500;
+const MAX_PROMPT_CHARS = 48000;
+const MAX_ACTION_ITEMS = 50;
+
+const DIGEST_PROMPT = `You write periodic digests of voice notes recorded by a startup founder, used as the basis for investor updates.
+You get one line per note with its date, title and summary.
+Reply with a JSON object with these keys:
+- "summary": one or two short paragraphs on what happened in the period
+- "themes": recurring topics across several notes, as short phrases
+Write in the language of the notes and do not invent anything that is not in them.`;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+
+const entrySummary = (entry: DigestEntry) =>
+  (entry.entry_insights?.status === "completed" && entry.entry_insights.tldr) ||
+  entry.transcription_preview ||
+  "";
+
+/**
+ * Generate (or regenerate) the digest of a period and return its row
+ */
+export const generateDigest = async (
+  supabase: SupabaseClient,
+  userId: string,
+  request: DigestRequest
+) => {
+  const { data: digest, error: digestError } = await supabase
+    .from("digests")
+    .upsert(
+      {
+        user_id: userId,
+        period: request.period,
+        period_start: request.periodStart,
+        period_end: request.periodEnd,
+        status: "processing",
+        error: null,
+      },
+      { onConflict: "user_id,period,period_start" }
+    )
+    .select("id")
+    .single();
+
+  if (digestError || !digest) {
+    throw new Error(digestError?.message || "Could not create digest");
+  }
+
+  const { data, error: entriesError } = await supabase
+    .from("entries")
+    .select(
+      "id, title, duration, created_at, transcription_preview, tags(name), entry_insights(status, tldr, action_items)"
+    )
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .gte("created_at", request.periodStart)
+    .lt("created_at", request.periodEnd)
+    .order("created_at", { ascending: true })
+    .limit(MAX_ENTRIES);
+
+  if (entriesError) {
+    await supabase
+      .from("digests")
+      .update({ status: "failed", error: entriesError.message })
+      .eq("id", digest.id);
+    throw new Error(entriesError.message);
+  }
+
+  const entries = (data || []) as DigestEntry[];
+
+  const tagCounts = new Map<string, number>();
+  entries.forEach((entry) =>
+    entry.tags.forEach((tag) =>
+      tagCounts.set(tag.name, (tagCounts.get(tag.name) ?? 0) + 1)
+    )
+  );
+
+  const stats = {
+    entry_count: entries.length,
+    total_duration: Math.round(
+      entries.reduce((total, entry) => total + (entry.duration ?? 0), 0)
+    ),
+    tag_counts: [...tagCounts.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 10)
+      .map(([name, count]) => ({ name, count })),
+    action_items: entries
+      .flatMap((entry) =>
+        toStringList(entry.entry_insights?.action_items).map((text) => ({
+          entry_id: entry.id,
+          text,
+        }))
+      )
+      .slice(0, MAX_ACTION_ITEMS),
+    highlights: entries.map((entry) => ({
+      entry_id: entry.id,
+      title: entry.title,
+      created_at: entry.created_at,
+      summary: entrySummary(entry) || null,
+    })),
+  };
+
+  const updateDigest = async (fields: Record<string, unknown>) => {
+    const { data: updated, error } = await supabase
+      .from("digests")
+      .update({ ...stats, ...fields })
+      .eq("id", digest.id)
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return updated;
+  };
+
+  if (entries.length === 0) {
+    return updateDigest({
+      status: "completed",
+      summary: null,
+      themes: [],
+      model: null,
+    });
+  }
+
+  try {
+    const provider = createLanguageModelProvider();
+    console.log(
+      `Generating ${request.period} digest ${digest.id} with ${provider.name}`
+    );
+
+    const prompt = entries
+      .map(
+        (entry) =>
+          `${entry.created_at.slice(0, 10)} | ${entry.title} | ${entrySummary(
+            entry
+          ).replace(/\s+/g, " ")}`
+      )
+      .join("\n")
+      .slice(0, MAX_PROMPT_CHARS);
+
+    const response = await provider.complete({
+      system: DIGEST_PROMPT,
+      prompt,
+      json: true,
+    });
+
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(response);
+    } catch {
+      throw new Error("Language model did not return valid JSON");
+    }
+
+    return await updateDigest({
+      status: "completed",
+      summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+      themes: toStringList(parsed.themes),
+      error: null,
+      model: `${provider.name}:${provider.model}`,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await updateDigest({ status: "failed", error: message });
+    throw error;
+  }
+};
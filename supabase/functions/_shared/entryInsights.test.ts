@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { generateEntryInsights } from "./entryInsights.ts";
+
+type Supabase = Parameters<typeof generateEntryInsights>[0];
+
+interface Write {
+  table: string;
+  values: Record<string, unknown>;
+}
+
+// Just enough of the client to read one entry and write its insights row
+const fakeSupabase = (entry: Record<string, unknown> | null) => {
+  const writes: Write[] = [];
+  const client = {
+    from: (table: string) => ({
+      select: () => ({
+        eq: () => ({
+          single: async () => ({
+            data: entry,
+            error: entry ? null : { message: "Not found" },
+          }),
+        }),
+      }),
+      upsert: async (values: Record<string, unknown>) => {
+        writes.push({ table, values });
+        return { error: null };
+      },
+      update: (values: Record<string, unknown>) => ({
+        eq: async () => {
+          writes.push({ table, values });
+          return { error: null };
+        },
+      }),
+    }),
+  };
+  return { supabase: client as unknown as Supabase, writes };
+};
+
+const entry = {
+  id: "entry-1",
+  user_id: "user-1",
+  transcription:
+    "We decided to raise a seed round. I need to update the deck. Who leads the round?",
+};
+
+// Answer every chat completion with `content`
+const modelAnswers = (content: string) =>
+  vi.stubGlobal(
+    "fetch",
+    vi.fn<typeof fetch>(
+      async () =>
+        new Response(JSON.stringify({ choices: [{ message: { content } }] }))
+    )
+  );
+
+const withProvider = (provider: string) =>
+  vi.stubGlobal("Deno", {
+    env: {
+      get: (key: string) =>
+        ({
+          LANGUAGE_MODEL_PROVIDER: provider,
+          LLM_API_URL: "http://localhost:11434/v1",
+        }[key]),
+    },
+  });
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("generateEntryInsights", () => {
+  it("stores the insights of the mock provider", async () => {
+    withProvider("mock");
+    const { supabase, writes } = fakeSupabase(entry);
+
+    const insights = await generateEntryInsights(supabase, "entry-1");
+
+    expect(insights).toEqual({
+      tldr: "We decided to raise a seed round. I need to update the deck.",
+      decisions: ["We decided to raise a seed round."],
+      action_items: ["I need to update the deck."],
+      open_questions: ["Who leads the round?"],
+    });
+    expect(writes).toEqual([
+      {
+        table: "entry_insights",
+        values: {
+          entry_id: "entry-1",
+          user_id: "user-1",
+          status: "processing",
+          error: null,
+        },
+      },
+      {
+        table: "entry_insights",
+        values: {
+          ...insights,
+          status: "completed",
+          error: null,
+          model: "mock:mock",
+        },
+      },
+    ]);
+  });
+
+  it("keeps only text from the model's lists", async () => {
+    withProvider("openai");
+    modelAnswers(
+      JSON.stringify({
+        tldr: "  Raising a seed round.  ",
+        decisions: ["Raise a seed round", 42, null],
+        action_items: "Update the deck",
+      })
+    );
+    const { supabase } = fakeSupabase(entry);
+
+    expect(await generateEntryInsights(supabase, "entry-1")).toEqual({
+      tldr: "Raising a seed round.",
+      decisions: ["Raise a seed round"],
+      action_items: [],
+      open_questions: [],
+    });
+  });
+
+  it("records a failure when the model does not answer with JSON", async () => {
+    withProvider("openai");
+    modelAnswers("Here are your insights!");
+    const { supabase, writes } = fakeSupabase(entry);
+
+    await expect(generateEntryInsights(supabase, "entry-1")).rejects.toThrow(
+      "Language model did not return valid JSON"
+    );
+    expect(writes.at(-1)).toEqual({
+      table: "entry_insights",
+      values: {
+        status: "failed",
+        error: "Language model did not return valid JSON",
+      },
+    });
+  });
+
+  it("does not start without a transcript", async () => {
+    withProvider("mock");
+    const { supabase, writes } = fakeSupabase({
+      ...entry,
+      transcription: "  ",
+    });
+
+    await expect(generateEntryInsights(supabase, "entry-1")).rejects.toThrow(
+      "Entry has no transcript to summarize"
+    );
+    expect(writes).toEqual([]);
+  });
+});
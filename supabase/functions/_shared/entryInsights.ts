@@ -0,0 +1,105 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { createLanguageModelProvider } from "./languageModel.ts";
+
+/**
+ * Summarize an entry's transcript into structured insights stored in `entry_insights`
+ */
+
+// Keep long recordings within the context window of small models
+const MAX_TRANSCRIPT_CHARS = 48000;
+
+const INSIGHTS_PROMPT = `You summarize voice notes recorded by startup founders.
+Reply with a JSON object with these keys:
+- "tldr": two or three sentences capturing the gist
+- "decisions": decisions that were made, as short sentences
+- "action_items": concrete next steps, starting with a verb
+- "open_questions": questions that remain unresolved
+Use empty arrays when there is nothing for a key. Write in the language of the transcript and do not invent anything that is not in it.`;
+
+export interface EntryInsightsResult {
+  tldr: string;
+  decisions: string[];
+  action_items: string[];
+  open_questions: string[];
+}
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+
+/**
+ * Generate and store insights for an entry. Failures are recorded on the
+ * insights row and rethrown; the transcript itself is never touched.
+ */
+export const generateEntryInsights = async (
+  supabase: SupabaseClient,
+  entryId: string
+): Promise<EntryInsightsResult> => {
+  const { data: entry, error: entryError } = await supabase
+    .from("entries")
+    .select("id, user_id, transcription")
+    .eq("id", entryId)
+    .single();
+
+  if (entryError || !entry) {
+    throw new Error("Entry not found");
+  }
+  if (!entry.transcription?.trim()) {
+    throw new Error("Entry has no transcript to summarize");
+  }
+
+  await supabase.from("entry_insights").upsert({
+    entry_id: entry.id,
+    user_id: entry.user_id,
+    status: "processing",
+    error: null,
+  });
+
+  try {
+    const provider = createLanguageModelProvider();
+    console.log(
+      `Generating insights for entry ${entry.id} with ${provider.name}`
+    );
+
+    const response = await provider.complete({
+      system: INSIGHTS_PROMPT,
+      prompt: entry.transcription.slice(0, MAX_TRANSCRIPT_CHARS),
+      json: true,
+    });
+
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(response);
+    } catch {
+      throw new Error("Language model did not return valid JSON");
+    }
+
+    const insights: EntryInsightsResult = {
+      tldr: typeof parsed.tldr === "string" ? parsed.tldr.trim() : "",
+      decisions: toStringList(parsed.decisions),
+      action_items: toStringList(parsed.action_items),
+      open_questions: toStringList(parsed.open_questions),
+    };
+
+    const { error: updateError } = await supabase
+      .from("entry_insights")
+      .update({
+        ...insights,
+        status: "completed",
+        error: null,
+        model: `${provider.name}:${provider.model}`,
+      })
+      .eq("entry_id", entry.id);
+
+    if (updateError) throw new Error(updateError.message);
+    return insights;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await supabase
+      .from("entry_insights")
+      .update({ status: "failed", error: message })
+      .eq("entry_id", entry.id);
+    throw error;
+  }
+};
@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  KeywordTitleSummarizer,
+  LanguageModelTitleSummarizer,
+  createTitleSummarizer,
+  generateEntryTitle,
+} from "./entryTitle.ts";
+import type { TitleSummarizer } from "./entryTitle.ts";
+
+type Supabase = Parameters<typeof generateEntryTitle>[0];
+
+const transcript =
+  "Fundraising update. The fundraising pipeline looks good and the investors " +
+  "liked the pipeline review. Investors want metrics.";
+
+// Reads one entry; `updatedRows` is what the conditional title update matched
+const fakeSupabase = (
+  entry: Record<string, unknown>,
+  updatedRows: { id: string }[] = [{ id: "entry-1" }]
+) => {
+  const updates: Record<string, unknown>[] = [];
+  const client = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({ single: async () => ({ data: entry, error: null }) }),
+      }),
+      update: (values: Record<string, unknown>) => ({
+        eq: () => ({
+          neq: () => ({
+            select: async () => {
+              updates.push(values);
+              return { data: updatedRows, error: null };
+            },
+          }),
+        }),
+      }),
+    }),
+  };
+  return { supabase: client as unknown as Supabase, updates };
+};
+
+const fixedTitle = (title: string): TitleSummarizer => ({
+  name: "fixed",
+  summarize: async () => title,
+});
+
+const withEnv = (env: Record<string, string>) =>
+  vi.stubGlobal("Deno", { env: { get: (key: string) => env[key] } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("KeywordTitleSummarizer", () => {
+  const summarizer = new KeywordTitleSummarizer();
+
+  it("names the note after its most frequent words, in spoken order", async () => {
+    expect(await summarizer.summarize(transcript)).toBe(
+      "Fundraising, Pipeline, Investors"
+    );
+  });
+
+  it("ignores filler words, numbers and possessives", async () => {
+    expect(
+      await summarizer.summarize(
+        "So, um, the 2025 budget. Sarah's budget and Sarah's hiring plan, you know."
+      )
+    ).toBe("Budget, Sarah, Hiring");
+  });
+
+  it("handles words outside the Latin alphabet", async () => {
+    expect(await summarizer.summarize("Привет команда, команда молодцы")).toBe(
+      "Привет, Команда, Молодцы"
+    );
+  });
+
+  it("falls back to the opening words when there are only filler words", async () => {
+    expect(await summarizer.summarize("Um, yeah, so, okay.")).toBe(
+      "Um yeah so okay"
+    );
+  });
+});
+
+describe("LanguageModelTitleSummarizer", () => {
+  it("cleans up the model's answer", async () => {
+    withEnv({ LANGUAGE_MODEL_PROVIDER: "mock" });
+
+    expect(
+      await new LanguageModelTitleSummarizer().summarize(
+        "Seed round plan. We need more investors."
+      )
+    ).toBe("Seed round plan. We need more investors");
+  });
+
+  it("uses keywords when the model is unavailable", async () => {
+    withEnv({ LANGUAGE_MODEL_PROVIDER: "openai" });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(await new LanguageModelTitleSummarizer().summarize(transcript)).toBe(
+      "Fundraising, Pipeline, Investors"
+    );
+  });
+});
+
+describe("createTitleSummarizer", () => {
+  it("builds the configured summarizer", () => {
+    withEnv({ TITLE_SUMMARIZER: "keywords" });
+
+    expect(createTitleSummarizer().name).toBe("keywords");
+    expect(() => createTitleSummarizer("random")).toThrow(
+      'Unknown title summarizer "random"'
+    );
+  });
+});
+
+describe("generateEntryTitle", () => {
+  const entry = {
+    id: "entry-1",
+    title_source: "auto",
+    transcription: transcript,
+  };
+
+  it("stores the summarized title as generated", async () => {
+    const { supabase, updates } = fakeSupabase(entry);
+
+    expect(
+      await generateEntryTitle(supabase, "entry-1", fixedTitle("Seed round"))
+    ).toBe("Seed round");
+    expect(updates).toEqual([
+      { title: "Seed round", title_source: "generated" },
+    ]);
+  });
+
+  it("never replaces a manual title", async () => {
+    const { supabase, updates } = fakeSupabase({
+      ...entry,
+      title_source: "manual",
+    });
+
+    expect(
+      await generateEntryTitle(supabase, "entry-1", fixedTitle("Seed round"))
+    ).toBeNull();
+    expect(updates).toEqual([]);
+  });
+
+  it("skips entries without a transcript", async () => {
+    const { supabase, updates } = fakeSupabase({
+      ...entry,
+      transcription: null,
+    });
+
+    expect(
+      await generateEntryTitle(supabase, "entry-1", fixedTitle("Seed round"))
+    ).toBeNull();
+    expect(updates).toEqual([]);
+  });
+
+  it("reports no title when the user renamed the entry meanwhile", async () => {
+    const { supabase } = fakeSupabase(entry, []);
+
+    expect(
+      await generateEntryTitle(supabase, "entry-1", fixedTitle("Seed round"))
+    ).toBeNull();
+  });
+});
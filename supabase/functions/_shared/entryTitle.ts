@@ -0,0 +1,170 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { createLanguageModelProvider } from "./languageModel.ts";
+
+/**
+ * Title an entry from its transcript
+ *
+ * Titles come from a pluggable summarizer. Configure it through the
+ * TITLE_SUMMARIZER secret:
+ *  - "language-model" (default): asks the configured language model and falls
+ *    back to keyword extraction when it is unavailable or fails
+ *  - "keywords": keyword extraction only, works offline
+ * A title the user typed (`title_source = 'manual'`) is never replaced.
+ */
+
+export interface TitleSummarizer {
+  readonly name: string;
+  summarize(transcript: string): Promise<string>;
+}
+
+const MAX_TITLE_LENGTH = 80;
+// The opening of a note is usually enough to name it
+const MAX_TRANSCRIPT_CHARS = 12000;
+
+const TITLE_PROMPT = `You name voice notes recorded by startup founders.
+Reply with a short, specific title of at most eight words that tells the note apart from others.
+Write in the language of the transcript. Reply with the title only, without quotes or trailing punctuation.`;
+
+const STOPWORDS = new Set(
+  `a about above after again against all also am an and any are as at be because been
+  before being below between both but by can could did do does doing done down during
+  each even few for from further get gets getting go going gonna got had has have having
+  he her here hers herself him himself his how i if in into is it its itself just know
+  kind let like lot maybe me might more most much must my myself need no nor not now of
+  off oh ok okay on once one only or other our ours ourselves out over own really right
+  said same say says she should so some something still such sure than that thats the
+  their theirs them themselves then there these they thing things think this those
+  through to today too um uh under until up us very want was way we well were what when
+  where which while who whom why will with would yeah yes you your yours yourself
+  yourselves`.split(/\s+/)
+);
+
+const capitalize = (word: string) =>
+  word.charAt(0).toLocaleUpperCase() + word.slice(1);
+
+const cleanTitle = (title: string) => {
+  const cleaned = title
+    .split("\n")[0]
+    .replace(/^(title:\s*)/i, "")
+    .replace(/^["'“”]+|["'“”.]+$/g, "")
+    .trim();
+  return cleaned.length > MAX_TITLE_LENGTH
+    ? `${cleaned.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : cleaned;
+};
+
+/**
+ * Offline summarizer: the most frequent meaningful words, in order of first use
+ */
+export class KeywordTitleSummarizer implements TitleSummarizer {
+  readonly name = "keywords";
+
+  async summarize(transcript: string): Promise<string> {
+    const words =
+      transcript.toLocaleLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+    const counts = new Map<string, { count: number; firstIndex: number }>();
+
+    words.forEach((word, index) => {
+      const normalized = word.replace(/'s$|'/g, "");
+      if (normalized.length < 3 || STOPWORDS.has(normalized)) return;
+      if (/^\p{N}+$/u.test(normalized)) return;
+
+      const current = counts.get(normalized);
+      counts.set(normalized, {
+        count: (current?.count ?? 0) + 1,
+        firstIndex: current?.firstIndex ?? index,
+      });
+    });
+
+    const keywords = [...counts.entries()]
+      .sort(([, a], [, b]) => b.count - a.count || a.firstIndex - b.firstIndex)
+      .slice(0, 3)
+      .sort(([, a], [, b]) => a.firstIndex - b.firstIndex)
+      .map(([word]) => capitalize(word));
+
+    if (keywords.length > 0) {
+      return cleanTitle(keywords.join(", "));
+    }
+
+    // Nothing but filler words: use the opening words instead
+    return cleanTitle(capitalize(words.slice(0, 6).join(" ")));
+  }
+}
+
+/**
+ * Asks the configured language model, falling back to keywords on any failure
+ */
+export class LanguageModelTitleSummarizer implements TitleSummarizer {
+  readonly name = "language-model";
+  private fallback = new KeywordTitleSummarizer();
+
+  async summarize(transcript: string): Promise<string> {
+    try {
+      const provider = createLanguageModelProvider();
+      const title = cleanTitle(
+        await provider.complete({
+          system: TITLE_PROMPT,
+          prompt: transcript.slice(0, MAX_TRANSCRIPT_CHARS),
+          maxTokens: 32,
+        })
+      );
+      if (title) return title;
+    } catch (error) {
+      console.warn(
+        "Language model title failed, using keywords:",
+        error instanceof Error ? error.message : error
+      );
+    }
+    return this.fallback.summarize(transcript);
+  }
+}
+
+export const createTitleSummarizer = (
+  name: string = Deno.env.get("TITLE_SUMMARIZER") || "language-model"
+): TitleSummarizer => {
+  switch (name) {
+    case "language-model":
+      return new LanguageModelTitleSummarizer();
+    case "keywords":
+      return new KeywordTitleSummarizer();
+    default:
+      throw new Error(`Unknown title summarizer "${name}"`);
+  }
+};
+
+/**
+ * Generate and store a title for an entry. Returns the new title, or null
+ * when the entry has a manual title or nothing to summarize.
+ */
+export const generateEntryTitle = async (
+  supabase: SupabaseClient,
+  entryId: string,
+  summarizer: TitleSummarizer = createTitleSummarizer()
+): Promise<string | null> => {
+  const { data: entry, error: entryError } = await supabase
+    .from("entries")
+    .select("id, title_source, transcription")
+    .eq("id", entryId)
+    .single();
+
+  if (entryError || !entry) {
+    throw new Error("Entry not found");
+  }
+  if (entry.title_source === "manual" || !entry.transcription?.trim()) {
+    return null;
+  }
+
+  const title = await summarizer.summarize(entry.transcription);
+  if (!title) return null;
+
+  // Conditional, so a title typed while we were summarizing still wins
+  const { data: updated, error: updateError } = await supabase
+    .from("entries")
+    .update({ title, title_source: "generated" })
+    .eq("id", entry.id)
+    .neq("title_source", "manual")
+    .select("id");
+
+  if (updateError) throw new Error(updateError.message);
+  return updated && updated.length > 0 ? title : null;
+};
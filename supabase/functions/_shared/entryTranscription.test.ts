@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { transcribeStoredEntry } from "./entryTranscription.ts";
+
+type Supabase = Parameters<typeof transcribeStoredEntry>[0];
+
+const audio = new Blob([new Uint8Array(2000)], { type: "audio/webm" });
+
+// Just enough of the client for one download and one entry update
+const fakeSupabase = (download: { data: Blob | null; error: Error | null }) => {
+  const updates: { id: string; values: Record<string, unknown> }[] = [];
+  const client = {
+    storage: { from: () => ({ download: async () => download }) },
+    from: () => ({
+      update: (values: Record<string, unknown>) => ({
+        eq: async (_column: string, id: string) => {
+          updates.push({ id, values });
+          return { error: null };
+        },
+      }),
+    }),
+  };
+  return { supabase: client as unknown as Supabase, updates };
+};
+
+beforeEach(() => {
+  vi.stubGlobal("Deno", {
+    env: {
+      get: (key: string) =>
+        key === "TRANSCRIPTION_PROVIDER" ? "mock" : undefined,
+    },
+  });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("transcribeStoredEntry", () => {
+  it("stores the provider's transcript and word timings on the entry", async () => {
+    const { supabase, updates } = fakeSupabase({ data: audio, error: null });
+
+    const result = await transcribeStoredEntry(
+      supabase,
+      { id: "entry-1", original_audio_url: "user/recording.webm" },
+      { language: "fra" }
+    );
+
+    expect(result.provider).toBe("mock");
+    expect(updates).toEqual([
+      {
+        id: "entry-1",
+        values: {
+          transcription: "Mock transcription (fra) - 2KB of audio/webm",
+          transcript_segments: result.segments,
+          transcription_source: "asr",
+          transcription_status: "completed",
+          transcription_error: null,
+        },
+      },
+    ]);
+  });
+
+  it("diarizes when the entry asks for speakers", async () => {
+    const { supabase } = fakeSupabase({ data: audio, error: null });
+
+    const result = await transcribeStoredEntry(supabase, {
+      id: "entry-1",
+      original_audio_url: "user/recording.webm",
+      identify_speakers: true,
+    });
+
+    expect(result.segments?.[0].speaker).toBe("speaker_0");
+  });
+
+  it("fails without touching the entry when the audio is missing", async () => {
+    const { supabase, updates } = fakeSupabase({
+      data: null,
+      error: new Error("Object not found"),
+    });
+
+    await expect(
+      transcribeStoredEntry(supabase, {
+        id: "entry-1",
+        original_audio_url: null,
+      })
+    ).rejects.toThrow("Entry has no audio to transcribe");
+    await expect(
+      transcribeStoredEntry(supabase, {
+        id: "entry-1",
+        original_audio_url: "user/recording.webm",
+      })
+    ).rejects.toThrow("Failed to download audio: Object not found");
+    expect(updates).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import {
+  createTranscriptionProvider,
+  type TranscriptionOptions,
+  type TranscriptionProviderName,
+  type TranscriptionResult,
+} from "./transcription.ts";
+
+/**
+ * Transcribe an entry's stored recording and write the transcript to the entry
+ */
+
+export interface TranscribableEntry {
+  id: string;
+  original_audio_url: string | null;
+  identify_speakers?: boolean;
+}
+
+export const transcribeStoredEntry = async (
+  supabase: SupabaseClient,
+  entry: TranscribableEntry,
+  options: TranscriptionOptions = {}
+): Promise<TranscriptionResult & { provider: TranscriptionProviderName }> => {
+  if (!entry.original_audio_url) {
+    throw new Error("Entry has no audio to transcribe");
+  }
+
+  const { data: audioBlob, error: downloadError } = await supabase.storage
+    .from("audio-recordings")
+    .download(entry.original_audio_url);
+
+  if (downloadError || !audioBlob) {
+    throw new Error(
+      `Failed to download audio: ${downloadError?.message || "not found"}`
+    );
+  }
+
+  const provider = createTranscriptionProvider();
+  console.log(`Transcribing entry ${entry.id} with ${provider.name}`);
+
+  const result = await provider.transcribe(audioBlob, {
+    language: options.language,
+    model: options.model,
+    temperature: options.temperature,
+    diarize: options.diarize ?? entry.identify_speakers,
+  });
+
+  if (!result.text || result.text.trim().length === 0) {
+    throw new Error("No transcription text returned from provider");
+  }
+
+  const { error: updateError } = await supabase
+    .from("entries")
+    .update({
+      transcription: result.text,
+      transcript_segments: result.segments?.length ? result.segments : null,
+      transcription_source: "asr",
+      transcription_status: "completed",
+      transcription_error: null,
+    })
+    .eq("id", entry.id);
+
+  if (updateError) throw new Error(updateError.message);
+
+  return { ...result, provider: provider.name };
+};
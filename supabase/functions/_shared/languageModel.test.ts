@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  MockLanguageModelProvider,
+  OpenAiLanguageModelProvider,
+  createLanguageModelProvider,
+} from "./languageModel.ts";
+
+const transcript =
+  "We talked to three investors today. We decided to raise a seed round. " +
+  "I need to update the deck by Friday. Should we hire a designer first? " +
+  "Going with the smaller office.";
+
+const withEnv = (env: Record<string, string>) =>
+  vi.stubGlobal("Deno", { env: { get: (key: string) => env[key] } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("MockLanguageModelProvider", () => {
+  it("answers the same prompt the same way", async () => {
+    const provider = new MockLanguageModelProvider();
+    const request = { system: "Summarize", prompt: transcript, json: true };
+
+    expect(await provider.complete(request)).toBe(
+      await provider.complete(request)
+    );
+  });
+
+  it("picks decisions, action items and questions out of the prompt", async () => {
+    const response = await new MockLanguageModelProvider().complete({
+      system: "Summarize",
+      prompt: transcript,
+      json: true,
+    });
+
+    expect(JSON.parse(response)).toEqual({
+      tldr: "We talked to three investors today. We decided to raise a seed round.",
+      summary:
+        "We talked to three investors today. We decided to raise a seed round. I need to update the deck by Friday.",
+      themes: [],
+      decisions: [
+        "We decided to raise a seed round.",
+        "Going with the smaller office.",
+      ],
+      action_items: [
+        "I need to update the deck by Friday.",
+        "Should we hire a designer first?",
+      ],
+      open_questions: ["Should we hire a designer first?"],
+    });
+  });
+
+  it("answers free text prompts with the first sentences", async () => {
+    expect(
+      await new MockLanguageModelProvider().complete({
+        system: "Write a title",
+        prompt: transcript,
+      })
+    ).toBe(
+      "We talked to three investors today. We decided to raise a seed round."
+    );
+  });
+});
+
+describe("OpenAiLanguageModelProvider", () => {
+  it("sends a chat completion and returns the first choice", async () => {
+    const fetchMock = vi.fn<typeof fetch>(
+      async () =>
+        new Response(
+          JSON.stringify({ choices: [{ message: { content: "{}" } }] })
+        )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const response = await new OpenAiLanguageModelProvider(
+      "http://localhost:11434/v1/",
+      undefined,
+      "llama3"
+    ).complete({ system: "Summarize", prompt: "Hello", json: true });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(response).toBe("{}");
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(init?.headers).not.toHaveProperty("Authorization");
+    expect(JSON.parse(init?.body as string)).toMatchObject({
+      model: "llama3",
+      messages: [
+        { role: "system", content: "Summarize" },
+        { role: "user", content: "Hello" },
+      ],
+      temperature: 0.2,
+      response_format: { type: "json_object" },
+    });
+  });
+
+  it("fails on an empty answer", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn<typeof fetch>(
+        async () => new Response(JSON.stringify({ choices: [] }))
+      )
+    );
+
+    await expect(
+      new OpenAiLanguageModelProvider("https://llm.test/v1", "key").complete({
+        system: "Summarize",
+        prompt: "Hello",
+      })
+    ).rejects.toThrow("Language model returned an empty response");
+  });
+});
+
+describe("createLanguageModelProvider", () => {
+  it("builds the configured provider", () => {
+    withEnv({ LANGUAGE_MODEL_PROVIDER: "mock" });
+
+    expect(createLanguageModelProvider().name).toBe("mock");
+  });
+
+  it("needs a key for OpenAI but not for self-hosted servers", () => {
+    withEnv({});
+    expect(() => createLanguageModelProvider()).toThrow(
+      "LLM_API_KEY is not configured"
+    );
+
+    withEnv({ LLM_API_URL: "http://localhost:11434/v1", LLM_MODEL: "llama3" });
+    expect(createLanguageModelProvider().model).toBe("llama3");
+  });
+
+  it("rejects unknown providers", () => {
+    withEnv({});
+
+    expect(() => createLanguageModelProvider("acme")).toThrow(
+      'Unknown language model provider "acme"'
+    );
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Language model providers and the configuration-driven factory that selects one
+ *
+ * Used for text generation over transcripts (summaries, titles, digests).
+ * Configure through function secrets (`supabase secrets set` or `--env-file`):
+ *  - LANGUAGE_MODEL_PROVIDER: "openai" (default) | "mock"
+ *  - LLM_API_URL / LLM_API_KEY / LLM_MODEL: OpenAI-compatible chat completions endpoint
+ */
+
+export type LanguageModelProviderName = "openai" | "mock";
+
+export interface LanguageModelRequest {
+  system: string;
+  prompt: string;
+  // Ask for a single JSON object instead of free text
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LanguageModelProvider {
+  readonly name: LanguageModelProviderName;
+  readonly model: string;
+  complete(request: LanguageModelRequest): Promise<string>;
+}
+
+/**
+ * Any OpenAI-compatible `/chat/completions` endpoint (OpenAI, Groq, OpenRouter, Ollama, ...)
+ */
+export class OpenAiLanguageModelProvider implements LanguageModelProvider {
+  readonly name = "openai" as const;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string, apiKey?: string, model = "gpt-4o-mini") {
+    this.baseUrl = baseUrl;
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async complete(request: LanguageModelRequest): Promise<string> {
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.prompt },
+          ],
+          temperature: request.temperature ?? 0.2,
+          max_tokens: request.maxTokens,
+          ...(request.json ? { response_format: { type: "json_object" } } : {}),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Language model request failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data: { choices?: { message?: { content?: string } }[] } =
+      await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error("Language model returned an empty response");
+    }
+    return content;
+  }
+}
+
+/**
+ * Deterministic offline stand-in used for development and tests.
+ * Builds its answer from the prompt with simple sentence heuristics, so the
+ * same prompt always produces the same output.
+ */
+export class MockLanguageModelProvider implements LanguageModelProvider {
+  readonly name = "mock" as const;
+  readonly model = "mock";
+
+  async complete(request: LanguageModelRequest): Promise<string> {
+    const sentences = request.prompt
+      .split(/(?<=[.!?])\s+/)
+      .map((sentence) => sentence.trim())
+      .filter(Boolean);
+    const matching = (pattern: RegExp) =>
+      sentences.filter((sentence) => pattern.test(sentence)).slice(0, 5);
+
+    if (!request.json) {
+      return sentences.slice(0, 2).join(" ");
+    }
+
+    // Answers every JSON prompt in use (insights and digests) with one shape
+    return JSON.stringify({
+      tldr: sentences.slice(0, 2).join(" "),
+      summary: sentences.slice(0, 3).join(" "),
+      themes: [],
+      decisions: matching(/\b(decided|decision|agreed|going with)\b/i),
+      action_items: matching(/\b(need to|should|will|todo|follow up)\b/i),
+      open_questions: sentences
+        .filter((sentence) => sentence.endsWith("?"))
+        .slice(0, 5),
+    });
+  }
+}
+
+/**
+ * Build the provider named in configuration. A misconfigured provider is an
+ * error, so it shows up as a failed generation instead of made-up output.
+ */
+export const createLanguageModelProvider = (
+  name: string = Deno.env.get("LANGUAGE_MODEL_PROVIDER") || "openai"
+): LanguageModelProvider => {
+  switch (name) {
+    case "openai": {
+      const baseUrl =
+        Deno.env.get("LLM_API_URL") || "https://api.openai.com/v1";
+      const apiKey = Deno.env.get("LLM_API_KEY");
+      if (!apiKey && baseUrl.includes("api.openai.com")) {
+        throw new Error("LLM_API_KEY is not configured");
+      }
+      return new OpenAiLanguageModelProvider(
+        baseUrl,
+        apiKey,
+        Deno.env.get("LLM_MODEL")
+      );
+    }
+    case "mock":
+      return new MockLanguageModelProvider();
+    default:
+      throw new Error(`Unknown language model provider "${name}"`);
+  }
+};
@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  ElevenLabsTranscriptionProvider,
+  MockTranscriptionProvider,
+  WhisperApiTranscriptionProvider,
+  WhisperCppTranscriptionProvider,
+  createTranscriptionProvider,
+} from "./transcription.ts";
+
+const audio = new Blob([new Uint8Array(4000)], { type: "audio/webm" });
+
+// Answer every request with `body` and keep the requests for inspection
+const respondWith = (body: unknown, status = 200) => {
+  const fetchMock = vi.fn<typeof fetch>(
+    async () => new Response(JSON.stringify(body), { status })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+const sentForm = (fetchMock: ReturnType<typeof respondWith>): FormData =>
+  fetchMock.mock.calls[0][1]!.body as FormData;
+
+const withEnv = (env: Record<string, string>) =>
+  vi.stubGlobal("Deno", { env: { get: (key: string) => env[key] } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("MockTranscriptionProvider", () => {
+  it("returns the same transcript for the same audio", async () => {
+    const provider = new MockTranscriptionProvider();
+
+    const first = await provider.transcribe(audio, { language: "deu" });
+    const second = await provider.transcribe(audio, { language: "deu" });
+
+    expect(first).toEqual(second);
+    expect(first.text).toBe("Mock transcription (deu) - 4KB of audio/webm");
+    expect(first.languageCode).toBe("deu");
+  });
+
+  it("times each word half a second after the previous one", async () => {
+    const { text, segments } = await new MockTranscriptionProvider().transcribe(
+      audio
+    );
+
+    expect(segments?.map((segment) => segment.text).join(" ")).toBe(text);
+    expect(segments?.[2]).toEqual({ text: "(eng)", start: 1, end: 1.5 });
+    expect(segments?.every((segment) => !segment.speaker)).toBe(true);
+  });
+
+  it("switches speaker every four words when diarizing", async () => {
+    const { segments } = await new MockTranscriptionProvider().transcribe(
+      audio,
+      { diarize: true }
+    );
+
+    expect(segments?.map((segment) => segment.speaker)).toEqual([
+      "speaker_0",
+      "speaker_0",
+      "speaker_0",
+      "speaker_0",
+      "speaker_1",
+      "speaker_1",
+      "speaker_1",
+    ]);
+  });
+});
+
+describe("ElevenLabsTranscriptionProvider", () => {
+  it("keeps words only and labels speakers when diarizing", async () => {
+    const fetchMock = respondWith({
+      text: "Hello there",
+      language_code: "eng",
+      words: [
+        { text: "Hello", start: 0, end: 0.4, type: "word", speaker_id: "s0" },
+        { text: " ", start: 0.4, end: 0.5, type: "spacing" },
+        { text: "there", start: 0.5, end: 0.9, type: "word", speaker_id: "s1" },
+      ],
+    });
+
+    const result = await new ElevenLabsTranscriptionProvider("key").transcribe(
+      audio,
+      { language: "eng", diarize: true }
+    );
+
+    expect(result).toEqual({
+      text: "Hello there",
+      languageCode: "eng",
+      segments: [
+        { text: "Hello", start: 0, end: 0.4, speaker: "s0" },
+        { text: "there", start: 0.5, end: 0.9, speaker: "s1" },
+      ],
+    });
+    expect(sentForm(fetchMock).get("diarize")).toBe("true");
+    expect(sentForm(fetchMock).get("language_code")).toBe("eng");
+  });
+
+  it("fails on an error response", async () => {
+    respondWith({}, 401);
+
+    await expect(
+      new ElevenLabsTranscriptionProvider("key").transcribe(audio)
+    ).rejects.toThrow("ElevenLabs request failed: 401");
+  });
+});
+
+describe("WhisperApiTranscriptionProvider", () => {
+  it("sends ISO-639-1 languages and trims word timings", async () => {
+    const fetchMock = respondWith({
+      text: "Hello there",
+      language: "english",
+      words: [
+        { word: " Hello", start: 0, end: 0.4 },
+        { word: " there", start: 0.5, end: 0.9 },
+      ],
+    });
+
+    const result = await new WhisperApiTranscriptionProvider(
+      "https://whisper.test/v1/",
+      "key"
+    ).transcribe(audio, { language: "spa" });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://whisper.test/v1/audio/transcriptions"
+    );
+    expect(sentForm(fetchMock).get("language")).toBe("es");
+    expect(sentForm(fetchMock).get("model")).toBe("whisper-1");
+    expect(result.segments).toEqual([
+      { text: "Hello", start: 0, end: 0.4 },
+      { text: "there", start: 0.5, end: 0.9 },
+    ]);
+  });
+
+  it("falls back to phrase timings without word timings", async () => {
+    respondWith({
+      text: "Hello there",
+      segments: [{ id: 0, text: " Hello there", start: 0, end: 0.9 }],
+    });
+
+    const result = await new WhisperApiTranscriptionProvider(
+      "https://whisper.test/v1"
+    ).transcribe(audio);
+
+    expect(result.segments).toEqual([
+      { text: "Hello there", start: 0, end: 0.9 },
+    ]);
+  });
+});
+
+describe("WhisperCppTranscriptionProvider", () => {
+  it("detects the language when none is given", async () => {
+    const fetchMock = respondWith({ text: " Hello " });
+
+    const result = await new WhisperCppTranscriptionProvider(
+      "http://localhost:8080"
+    ).transcribe(audio);
+
+    expect(result.text).toBe("Hello");
+    expect(sentForm(fetchMock).get("language")).toBe("auto");
+  });
+
+  it("fails when the server reports an error", async () => {
+    respondWith({ error: "model not loaded" });
+
+    await expect(
+      new WhisperCppTranscriptionProvider("http://localhost:8080").transcribe(
+        audio
+      )
+    ).rejects.toThrow("whisper.cpp error: model not loaded");
+  });
+});
+
+describe("createTranscriptionProvider", () => {
+  it("builds the configured provider", () => {
+    withEnv({ TRANSCRIPTION_PROVIDER: "mock" });
+
+    expect(createTranscriptionProvider().name).toBe("mock");
+  });
+
+  it("rejects incomplete or unknown configuration", () => {
+    withEnv({});
+
+    expect(() => createTranscriptionProvider()).toThrow(
+      "ELEVENLABS_API_KEY is not configured"
+    );
+    expect(() => createTranscriptionProvider("whisper-cpp")).toThrow(
+      "WHISPER_CPP_URL is not configured"
+    );
+    expect(() => createTranscriptionProvider("vosk")).toThrow(
+      'Unknown transcription provider "vosk"'
+    );
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * Transcription providers and the configuration-driven factory that selects one
+ *
+ * Runs inside edge functions so provider secrets never reach the browser.
+ * Configure through function secrets (`supabase secrets set` or `--env-file`):
+ *  - TRANSCRIPTION_PROVIDER: "elevenlabs" (default) | "mock" | "whisper-api" | "whisper-cpp"
+ *  - ELEVENLABS_API_KEY: API key for ElevenLabs
+ *  - WHISPER_API_URL / WHISPER_API_KEY / WHISPER_MODEL: OpenAI-compatible endpoint
+ *  - WHISPER_CPP_URL: base URL of a self-hosted whisper.cpp server
+ */
+
+export type TranscriptionProviderName =
+  | "elevenlabs"
+  | "mock"
+  | "whisper-api"
+  | "whisper-cpp";
+
+export interface TranscriptionOptions {
+  language?: string;
+  model?: string;
+  temperature?: number;
+  // Label who is speaking; providers without diarization ignore this
+  diarize?: boolean;
+}
+
+// A timed piece of the transcript, in seconds from the start of the recording
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+  // Provider speaker id (e.g. "speaker_0") when diarization was requested
+  speaker?: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  languageCode?: string;
+  // Word timings, or phrase timings when the provider has nothing finer
+  segments?: TranscriptSegment[];
+}
+
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  transcribe(
+    audioBlob: Blob,
+    options?: TranscriptionOptions
+  ): Promise<TranscriptionResult>;
+}
+
+/**
+ * ElevenLabs Speech-to-Text (Scribe)
+ */
+export class ElevenLabsTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "elevenlabs" as const;
+  private apiKey: string;
+
+  constructor(apiKey: string) {
+    this.apiKey = apiKey;
+  }
+
+  async transcribe(
+    audioBlob: Blob,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    const formData = new FormData();
+    formData.append("file", audioBlob, fileNameFor(audioBlob));
+    formData.append("model_id", options.model || "scribe_v1");
+    formData.append("timestamps_granularity", "word");
+    if (options.diarize) formData.append("diarize", "true");
+    if (options.language) formData.append("language_code", options.language);
+    if (options.temperature !== undefined) {
+      formData.append("temperature", String(options.temperature));
+    }
+
+    const response = await fetch(
+      "https://api.elevenlabs.io/v1/speech-to-text",
+      {
+        method: "POST",
+        headers: { "xi-api-key": this.apiKey },
+        body: formData,
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `ElevenLabs request failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data: {
+      text?: string;
+      language_code?: string;
+      words?: {
+        text: string;
+        start: number;
+        end: number;
+        type: string;
+        speaker_id?: string;
+      }[];
+    } = await response.json();
+
+    return {
+      text: data.text || "",
+      languageCode: data.language_code,
+      segments: data.words
+        ?.filter((word) => word.type === "word")
+        .map(({ text, start, end, speaker_id }) => ({
+          text,
+          start,
+          end,
+          ...(options.diarize && speaker_id ? { speaker: speaker_id } : {}),
+        })),
+    };
+  }
+}
+
+/**
+ * Deterministic offline stand-in used for development and tests.
+ * The same blob and options always produce the same transcript.
+ */
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "mock" as const;
+
+  async transcribe(
+    audioBlob: Blob,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    const language = options.language || "eng";
+    const text = `Mock transcription (${language}) - ${Math.round(
+      audioBlob.size / 1000
+    )}KB of ${audioBlob.type || "audio"}`;
+
+    // Half a second per word; diarized mocks switch speaker every four words
+    return {
+      text,
+      languageCode: language,
+      segments: text.split(" ").map((word, index) => ({
+        text: word,
+        start: index * 0.5,
+        end: index * 0.5 + 0.5,
+        ...(options.diarize
+          ? { speaker: `speaker_${Math.floor(index / 4) % 2}` }
+          : {}),
+      })),
+    };
+  }
+}
+
+/**
+ * Any OpenAI-compatible `/audio/transcriptions` endpoint (OpenAI, Groq, faster-whisper-server, ...)
+ */
+export class WhisperApiTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "whisper-api" as const;
+  private baseUrl: string;
+  private apiKey?: string;
+  private defaultModel: string;
+
+  constructor(baseUrl: string, apiKey?: string, defaultModel = "whisper-1") {
+    this.baseUrl = baseUrl;
+    this.apiKey = apiKey;
+    this.defaultModel = defaultModel;
+  }
+
+  async transcribe(
+    audioBlob: Blob,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    const formData = new FormData();
+    formData.append("file", audioBlob, fileNameFor(audioBlob));
+    formData.append("model", options.model || this.defaultModel);
+    formData.append("response_format", "verbose_json");
+    formData.append("timestamp_granularities[]", "word");
+    formData.append("timestamp_granularities[]", "segment");
+
+    const language = options.language && toIso6391(options.language);
+    if (language) formData.append("language", language);
+    if (options.temperature !== undefined) {
+      formData.append("temperature", String(options.temperature));
+    }
+
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, "")}/audio/transcriptions`,
+      {
+        method: "POST",
+        headers: this.apiKey
+          ? { Authorization: `Bearer ${this.apiKey}` }
+          : undefined,
+        body: formData,
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Whisper API request failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data: {
+      text?: string;
+      language?: string;
+      words?: { word: string; start: number; end: number }[];
+      segments?: TranscriptSegment[];
+    } = await response.json();
+
+    return {
+      text: data.text || "",
+      languageCode: data.language,
+      segments:
+        data.words?.map(({ word, start, end }) => ({
+          text: word.trim(),
+          start,
+          end,
+        })) || toTrimmedSegments(data.segments),
+    };
+  }
+}
+
+/**
+ * Self-hosted whisper.cpp server (`examples/server`), which exposes POST /inference
+ */
+export class WhisperCppTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "whisper-cpp" as const;
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl;
+  }
+
+  async transcribe(
+    audioBlob: Blob,
+    options: TranscriptionOptions = {}
+  ): Promise<TranscriptionResult> {
+    const formData = new FormData();
+    formData.append("file", audioBlob, fileNameFor(audioBlob));
+    formData.append("response_format", "verbose_json");
+    formData.append("language", toIso6391(options.language || "") || "auto");
+    if (options.temperature !== undefined) {
+      formData.append("temperature", String(options.temperature));
+    }
+
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, "")}/inference`,
+      { method: "POST", body: formData }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `whisper.cpp request failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data: {
+      text?: string;
+      error?: string;
+      segments?: TranscriptSegment[];
+    } = await response.json();
+    if (data.error) {
+      throw new Error(`whisper.cpp error: ${data.error}`);
+    }
+
+    return {
+      text: (data.text || "").trim(),
+      segments: toTrimmedSegments(data.segments),
+    };
+  }
+}
+
+// Whisper-based providers only understand ISO-639-1 codes
+const ISO_639_3_TO_1: { [key: string]: string } = {
+  eng: "en",
+  spa: "es",
+  fra: "fr",
+  deu: "de",
+  ita: "it",
+  por: "pt",
+  rus: "ru",
+  jpn: "ja",
+  kor: "ko",
+  cmn: "zh",
+  ara: "ar",
+  hin: "hi",
+  nld: "nl",
+  pol: "pl",
+  swe: "sv",
+  dan: "da",
+  nor: "no",
+  fin: "fi",
+  tur: "tr",
+  ces: "cs",
+  hun: "hu",
+  ron: "ro",
+  bul: "bg",
+  hrv: "hr",
+  slk: "sk",
+  slv: "sl",
+};
+
+const toIso6391 = (code: string): string | undefined =>
+  code.length === 2 ? code : ISO_639_3_TO_1[code];
+
+// Whisper segment text carries leading spaces and sometimes stray fields
+const toTrimmedSegments = (
+  segments?: TranscriptSegment[]
+): TranscriptSegment[] | undefined =>
+  segments?.map(({ text, start, end }) => ({ text: text.trim(), start, end }));
+
+// Multipart uploads need a filename with an extension servers can sniff
+const fileNameFor = (audioBlob: Blob): string => {
+  const subtype = audioBlob.type.split(";")[0].split("/")[1];
+  return `audio.${subtype || "webm"}`;
+};
+
+/**
+ * Build the provider named in configuration. A misconfigured provider is an
+ * error, so it shows up as a failed transcription instead of a fake transcript.
+ */
+export const createTranscriptionProvider = (
+  name: string = Deno.env.get("TRANSCRIPTION_PROVIDER") || "elevenlabs"
+): TranscriptionProvider => {
+  switch (name) {
+    case "elevenlabs": {
+      const apiKey = Deno.env.get("ELEVENLABS_API_KEY");
+      if (!apiKey) {
+        throw new Error("ELEVENLABS_API_KEY is not configured");
+      }
+      return new ElevenLabsTranscriptionProvider(apiKey);
+    }
+    case "whisper-api":
+      return new WhisperApiTranscriptionProvider(
+        Deno.env.get("WHISPER_API_URL") || "https://api.openai.com/v1",
+        Deno.env.get("WHISPER_API_KEY"),
+        Deno.env.get("WHISPER_MODEL")
+      );
+    case "whisper-cpp": {
+      const baseUrl = Deno.env.get("WHISPER_CPP_URL");
+      if (!baseUrl) {
+        throw new Error("WHISPER_CPP_URL is not configured");
+      }
+      return new WhisperCppTranscriptionProvider(baseUrl);
+    }
+    case "mock":
+      return new MockTranscriptionProvider();
+    default:
+      throw new Error(`Unknown transcription provider "${name}"`);
+  }
+};
@@ -0,0 +1,90 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { removeUserAudio } from "../_shared/audioStorage.ts";
+
+/**
+ * Permanently delete the caller's recordings, or their whole account
+ *
+ * POST { scope: "recordings" | "account" } with the user's JWT. Entries and
+ * digests are deleted in one transaction by `delete_user_entries`, then the
+ * user's folder in `audio-recordings` is emptied. If removing audio fails the
+ * call returns 500 and can simply be repeated: the folder is swept by listing,
+ * not by the already deleted rows. The "account" scope finally deletes the
+ * auth user with the service role, which cascades to tags and everything else.
+ */
+
+type DeletionScope = "recordings" | "account";
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return jsonResponse({ error: "Missing authorization header" }, 401);
+  }
+
+  let scope: DeletionScope;
+  try {
+    ({ scope } = await req.json());
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
+  if (scope !== "recordings" && scope !== "account") {
+    return jsonResponse(
+      { error: 'scope must be "recordings" or "account"' },
+      400
+    );
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return jsonResponse({ error: "Invalid or expired session" }, 401);
+  }
+
+  const { data: entries, error: deleteError } = await supabase.rpc(
+    "delete_user_entries"
+  );
+  if (deleteError) {
+    return jsonResponse({ error: deleteError.message }, 500);
+  }
+
+  let files: number;
+  try {
+    files = await removeUserAudio(supabase, user.id);
+  } catch (error) {
+    return jsonResponse(
+      {
+        error: error instanceof Error ? error.message : "Removing audio failed",
+      },
+      500
+    );
+  }
+
+  if (scope === "account") {
+    const admin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+    const { error: accountError } = await admin.auth.admin.deleteUser(user.id);
+    if (accountError) {
+      return jsonResponse({ error: accountError.message }, 500);
+    }
+  }
+
+  return jsonResponse({ entries: entries ?? 0, files });
+});
@@ -0,0 +1,82 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { generateDigest, type DigestRequest } from "../_shared/digest.ts";
+
+/**
+ * Generate the weekly or monthly digest of the caller's entries
+ *
+ * POST { period, periodStart, periodEnd } with the user's JWT. The period
+ * bounds are ISO timestamps computed in the user's time zone, end exclusive.
+ * Regenerating a period replaces its stored digest. Runs as the calling user,
+ * so RLS applies.
+ */
+
+const PERIODS = ["week", "month"];
+// A month plus slack for time zone and DST shifts
+const MAX_PERIOD_DAYS = 32;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return jsonResponse({ error: "Missing authorization header" }, 401);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return jsonResponse({ error: "Invalid or expired session" }, 401);
+  }
+
+  let body: Partial<DigestRequest>;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Request body must be JSON" }, 400);
+  }
+
+  const start = Date.parse(body.periodStart ?? "");
+  const end = Date.parse(body.periodEnd ?? "");
+  if (!body.period || !PERIODS.includes(body.period)) {
+    return jsonResponse({ error: "period must be week or month" }, 400);
+  }
+  if (
+    Number.isNaN(start) ||
+    Number.isNaN(end) ||
+    end <= start ||
+    end - start > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000
+  ) {
+    return jsonResponse(
+      { error: "periodStart and periodEnd must bound a week or a month" },
+      400
+    );
+  }
+
+  try {
+    const digest = await generateDigest(supabase, user.id, {
+      period: body.period,
+      periodStart: new Date(start).toISOString(),
+      periodEnd: new Date(end).toISOString(),
+    });
+    return jsonResponse({ digest });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Digest failed for user ${user.id}:`, message);
+    return jsonResponse({ error: message }, 502);
+  }
+});
@@ -0,0 +1,60 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { generateEntryInsights } from "../_shared/entryInsights.ts";
+
+/**
+ * (Re)generate the summary, decisions, action items and open questions of an entry
+ *
+ * POST { entryId } with the user's JWT. Insights are generated automatically
+ * after each transcription; this endpoint refreshes them on demand, e.g. after
+ * the transcript was edited. Runs as the calling user, so RLS applies.
+ */
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return jsonResponse({ error: "Missing authorization header" }, 401);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return jsonResponse({ error: "Invalid or expired session" }, 401);
+  }
+
+  let body: { entryId?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Request body must be JSON" }, 400);
+  }
+
+  if (!body.entryId) {
+    return jsonResponse({ error: "entryId is required" }, 400);
+  }
+
+  try {
+    const insights = await generateEntryInsights(supabase, body.entryId);
+    return jsonResponse({ insights });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Insights failed for entry ${body.entryId}:`, message);
+    return jsonResponse({ error: message }, 502);
+  }
+});
@@ -0,0 +1,141 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  createTitleSummarizer,
+  generateEntryTitle,
+} from "../_shared/entryTitle.ts";
+
+/**
+ * Back-fill titles for transcribed entries that still have a placeholder title
+ *
+ * POST { cursor? } with the user's JWT. Titles up to BATCH_SIZE entries per
+ * call, newest first, and returns the `cursor` of the last entry it tried and
+ * how many are left after it. The client passes the cursor back until
+ * `remaining` is 0, so entries that fail or are skipped are not tried again in
+ * the same run. Manual and already generated titles are left alone. Runs as the
+ * calling user, so RLS applies.
+ */
+
+interface TitleCursor {
+  createdAt: string;
+  id: string;
+}
+
+const BATCH_SIZE = 20;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Timestamps as PostgREST returns them, e.g. 2025-07-01T09:30:00.123456+00:00
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+// The cursor ends up in a PostgREST filter, so only accept exact formats
+const isCursor = (value: unknown): value is TitleCursor => {
+  const cursor = value as Partial<TitleCursor> | null;
+  return (
+    typeof cursor?.createdAt === "string" &&
+    TIMESTAMP_PATTERN.test(cursor.createdAt) &&
+    typeof cursor.id === "string" &&
+    UUID_PATTERN.test(cursor.id)
+  );
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return jsonResponse({ error: "Missing authorization header" }, 401);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return jsonResponse({ error: "Invalid or expired session" }, 401);
+  }
+
+  let body: { cursor?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Request body must be JSON" }, 400);
+  }
+  if (body.cursor != null && !isCursor(body.cursor)) {
+    return jsonResponse({ error: "cursor must have createdAt and id" }, 400);
+  }
+  const after = isCursor(body.cursor) ? body.cursor : null;
+
+  // Placeholder entries older than the cursor, in (created_at, id) order
+  const placeholderEntries = (cursor: TitleCursor | null) => {
+    const query = supabase
+      .from("entries")
+      .select("id, created_at", { count: "exact" })
+      .eq("user_id", user.id)
+      .is("deleted_at", null)
+      .eq("title_source", "auto")
+      .not("transcription", "is", null)
+      .neq("transcription", "");
+
+    return cursor
+      ? query.or(
+          `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+        )
+      : query;
+  };
+
+  const { data: entries, error: entriesError } = await placeholderEntries(after)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(BATCH_SIZE);
+
+  if (entriesError) {
+    return jsonResponse({ error: entriesError.message }, 500);
+  }
+
+  const summarizer = createTitleSummarizer();
+  let updated = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const entry of entries || []) {
+    try {
+      if (await generateEntryTitle(supabase, entry.id, summarizer)) {
+        updated++;
+      } else {
+        skipped++;
+      }
+    } catch (error) {
+      failed++;
+      console.error(
+        `Title failed for entry ${entry.id}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  const last = entries?.[entries.length - 1];
+  const cursor: TitleCursor | null = last
+    ? { createdAt: last.created_at, id: last.id }
+    : after;
+  const { count: remaining } = await placeholderEntries(cursor).limit(0);
+
+  return jsonResponse({
+    updated,
+    skipped,
+    failed,
+    remaining: remaining ?? 0,
+    cursor,
+  });
+});
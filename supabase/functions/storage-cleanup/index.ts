@@ -0,0 +1,91 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { removeAudioFiles } from "../_shared/audioStorage.ts";
+
+/**
+ * Drain the `storage_deletions` queue
+ *
+ * Invoked with the service role key right after entries are deleted, and every
+ * five minutes by pg_cron to pick up retries. Claimed files are removed from
+ * `audio-recordings` in one call per batch; on failure the whole batch is
+ * retried with exponential backoff, capped at a day, until it succeeds.
+ */
+
+const BATCH_SIZE = 100;
+const BASE_BACKOFF_SECONDS = 60;
+const MAX_BACKOFF_SECONDS = 24 * 60 * 60;
+
+interface StorageDeletion {
+  id: string;
+  path: string;
+  attempts: number;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+  const { data, error: claimError } = await supabase.rpc(
+    "claim_storage_deletions",
+    { batch_size: BATCH_SIZE }
+  );
+
+  if (claimError) {
+    return jsonResponse({ error: claimError.message }, 500);
+  }
+
+  const deletions = (data || []) as StorageDeletion[];
+  if (deletions.length === 0) {
+    return jsonResponse({ removed: 0, failed: 0 });
+  }
+
+  try {
+    await removeAudioFiles(
+      supabase,
+      deletions.map((deletion) => deletion.path)
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Removing ${deletions.length} audio files failed:`, message);
+
+    for (const deletion of deletions) {
+      // 60s, 120s, 240s, ... between attempts
+      const backoffSeconds = Math.min(
+        BASE_BACKOFF_SECONDS * 2 ** (deletion.attempts - 1),
+        MAX_BACKOFF_SECONDS
+      );
+      await supabase
+        .from("storage_deletions")
+        .update({
+          last_error: message,
+          run_after: new Date(Date.now() + backoffSeconds * 1000).toISOString(),
+        })
+        .eq("id", deletion.id);
+    }
+
+    return jsonResponse({ removed: 0, failed: deletions.length });
+  }
+
+  const { error: dequeueError } = await supabase
+    .from("storage_deletions")
+    .delete()
+    .in(
+      "id",
+      deletions.map((deletion) => deletion.id)
+    );
+
+  if (dequeueError) {
+    // The files are gone; the rows are claimed again later and removed then
+    return jsonResponse({ error: dequeueError.message }, 500);
+  }
+
+  return jsonResponse({ removed: deletions.length, failed: 0 });
+});
@@ -0,0 +1,99 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { transcribeStoredEntry } from "../_shared/entryTranscription.ts";
+import type { TranscriptionOptions } from "../_shared/transcription.ts";
+
+/**
+ * Transcribe a stored recording server-side and write the result to its entry
+ *
+ * POST { entryId, language?, model?, temperature?, diarize? } with the user's JWT.
+ * `diarize` defaults to the entry's `identify_speakers` choice.
+ * Every query runs as the calling user, so RLS limits access to their own
+ * entries and their own folder in the `audio-recordings` bucket.
+ *
+ * The app queues transcriptions for `transcription-worker`; this synchronous
+ * endpoint is kept for scripts and for testing against a local stack.
+ */
+
+interface TranscribeRequest extends TranscriptionOptions {
+  entryId?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return jsonResponse({ error: "Missing authorization header" }, 401);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const {
+    data: { user },
+    error: userError,
+  } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return jsonResponse({ error: "Invalid or expired session" }, 401);
+  }
+
+  let body: TranscribeRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: "Request body must be JSON" }, 400);
+  }
+
+  if (!body.entryId) {
+    return jsonResponse({ error: "entryId is required" }, 400);
+  }
+
+  const { data: entry, error: entryError } = await supabase
+    .from("entries")
+    .select("id, original_audio_url, identify_speakers")
+    .eq("id", body.entryId)
+    .single();
+
+  if (entryError || !entry) {
+    return jsonResponse({ error: "Entry not found" }, 404);
+  }
+
+  if (!entry.original_audio_url) {
+    return jsonResponse({ error: "Entry has no audio to transcribe" }, 422);
+  }
+
+  await supabase
+    .from("entries")
+    .update({ transcription_status: "processing", transcription_error: null })
+    .eq("id", entry.id);
+
+  try {
+    const result = await transcribeStoredEntry(supabase, entry, body);
+
+    return jsonResponse({
+      transcription: result.text,
+      languageCode: result.languageCode,
+      provider: result.provider,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Transcription failed for entry ${entry.id}:`, message);
+
+    await supabase
+      .from("entries")
+      .update({ transcription_status: "failed", transcription_error: message })
+      .eq("id", entry.id);
+
+    return jsonResponse({ error: message }, 502);
+  }
+});
@@ -0,0 +1,150 @@
+import { createClient, type SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { transcribeStoredEntry } from "../_shared/entryTranscription.ts";
+import { generateEntryInsights } from "../_shared/entryInsights.ts";
+import { generateEntryTitle } from "../_shared/entryTitle.ts";
+import type { TranscriptionOptions } from "../_shared/transcription.ts";
+
+/**
+ * Drain the `transcription_jobs` queue
+ *
+ * Invoked with the service role key by `enqueue_transcription` right after a
+ * job is queued, and every minute by pg_cron to pick up retries. Failed
+ * attempts are retried with exponential backoff until `max_attempts`, after
+ * which the entry is marked failed. A title and insights are generated once the
+ * transcript is stored; their failure is logged or recorded separately and
+ * never fails the job.
+ *
+ * Jobs are claimed one at a time, and no new job is claimed after
+ * CLAIM_WINDOW_MS, so a run stays well inside the edge function wall-clock
+ * limit. Jobs left unclaimed are picked up by the next invocation.
+ */
+
+// A job (transcript, title and insights) can take about a minute on its own
+const CLAIM_WINDOW_MS = 60_000;
+const BASE_BACKOFF_SECONDS = 30;
+
+interface TranscriptionJob {
+  id: string;
+  entry_id: string;
+  options: TranscriptionOptions;
+  attempts: number;
+  max_attempts: number;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+  const startedAt = Date.now();
+  const results = [];
+  while (Date.now() - startedAt < CLAIM_WINDOW_MS) {
+    const { data: jobs, error: claimError } = await supabase.rpc(
+      "claim_transcription_jobs",
+      { batch_size: 1 }
+    );
+
+    if (claimError) {
+      return jsonResponse(
+        { error: claimError.message, processed: results.length, results },
+        500
+      );
+    }
+
+    const [job] = (jobs || []) as TranscriptionJob[];
+    if (!job) break;
+    results.push(await processJob(supabase, job));
+  }
+
+  return jsonResponse({ processed: results.length, results });
+});
+
+const processJob = async (
+  supabase: SupabaseClient,
+  job: TranscriptionJob
+) => {
+  try {
+    const { data: entry, error: entryError } = await supabase
+      .from("entries")
+      .select("id, original_audio_url, identify_speakers")
+      .eq("id", job.entry_id)
+      .single();
+
+    if (entryError || !entry) {
+      throw new Error("Entry not found");
+    }
+
+    await transcribeStoredEntry(supabase, entry, job.options);
+
+    await supabase
+      .from("transcription_jobs")
+      .update({ status: "completed", last_error: null, locked_at: null })
+      .eq("id", job.id);
+
+    try {
+      await generateEntryTitle(supabase, job.entry_id);
+    } catch (error) {
+      console.error(
+        `Title failed for entry ${job.entry_id}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    try {
+      await generateEntryInsights(supabase, job.entry_id);
+    } catch (error) {
+      console.error(
+        `Insights failed for entry ${job.entry_id}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    return { jobId: job.id, status: "completed" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const exhausted = job.attempts >= job.max_attempts;
+    console.error(
+      `Transcription job ${job.id} attempt ${job.attempts} failed:`,
+      message
+    );
+
+    if (exhausted) {
+      await supabase
+        .from("transcription_jobs")
+        .update({ status: "failed", last_error: message, locked_at: null })
+        .eq("id", job.id);
+
+      await supabase
+        .from("entries")
+        .update({
+          transcription_status: "failed",
+          transcription_error: message,
+        })
+        .eq("id", job.entry_id);
+
+      return { jobId: job.id, status: "failed", error: message };
+    }
+
+    // 30s, 60s, 120s, ... between attempts
+    const backoffSeconds = BASE_BACKOFF_SECONDS * 2 ** (job.attempts - 1);
+    await supabase
+      .from("transcription_jobs")
+      .update({
+        status: "pending",
+        last_error: message,
+        locked_at: null,
+        run_after: new Date(Date.now() + backoffSeconds * 1000).toISOString(),
+      })
+      .eq("id", job.id);
+
+    return { jobId: job.id, status: "retrying", error: message };
+  }
+};
@@ -0,0 +1,47 @@
+/*
+  # Add transcription status lifecycle to entries
+
+  1. Changes
+    - `entries.transcription_status` (text, 'idle' | 'processing' | 'completed' | 'failed')
+    - `entries.transcription_error` (text, nullable - last failure reason)
+
+  2. Data Fix
+    - Entries whose transcription holds a stored error message (written by the old
+      client fallback) are moved to the 'failed' state and their transcription cleared
+    - Placeholder text saved when the old client had no ElevenLabs key
+      ("Transcription generated on …", "Placeholder transcription generated on …")
+      is cleared the same way, so it is not treated as a transcript
+    - Entries with a transcription are marked 'completed'
+
+  3. Important Notes
+    - `transcription` now only ever contains real transcript content
+*/
+
+ALTER TABLE entries
+  ADD COLUMN IF NOT EXISTS transcription_status text NOT NULL DEFAULT 'idle'
+    CHECK (transcription_status IN ('idle', 'processing', 'completed', 'failed')),
+  ADD COLUMN IF NOT EXISTS transcription_error text;
+
+-- Move error strings out of the transcript column
+UPDATE entries
+SET
+  transcription_status = 'failed',
+  transcription_error = transcription,
+  transcription = NULL
+WHERE transcription LIKE 'Transcription failed%';
+
+UPDATE entries
+SET
+  transcription_status = 'failed',
+  transcription_error = 'No transcript was saved for this recording. Please retry.',
+  transcription = NULL
+WHERE transcription LIKE 'Transcription generated on % - Duration: %KB'
+   OR transcription LIKE 'Placeholder transcription generated on % - Duration: %KB';
+
+UPDATE entries
+SET transcription_status = 'completed'
+WHERE transcription IS NOT NULL
+  AND transcription_status = 'idle';
+
+CREATE INDEX IF NOT EXISTS entries_transcription_status_idx
+  ON entries(transcription_status);
@@ -0,0 +1,171 @@
+/*
+  # Background transcription job queue
+
+  1. New Tables
+    - `transcription_jobs`
+      - `id` (uuid, primary key)
+      - `entry_id` (uuid, references entries)
+      - `user_id` (uuid, references auth.users)
+      - `status` (text, 'pending' | 'processing' | 'completed' | 'failed')
+      - `options` (jsonb - language, model, temperature)
+      - `attempts` / `max_attempts` (integer)
+      - `run_after` (timestamp - next attempt, pushed back exponentially on failure)
+      - `locked_at` (timestamp - when a worker claimed the job)
+      - `last_error` (text, nullable)
+      - `created_at` / `updated_at` (timestamp)
+
+  2. Functions
+    - `enqueue_transcription(entry_id, options)`: called by the client, marks the entry
+      'processing' and queues a job (reusing an outstanding one for the same entry)
+    - `claim_transcription_jobs(batch_size)`: called by the worker, atomically claims due jobs
+    - `invoke_transcription_worker()`: pings the `transcription-worker` edge function
+
+  3. Security
+    - Enable RLS on `transcription_jobs`; users can read their own jobs
+    - Jobs are only written through the functions above
+
+  4. Important Notes
+    - `entries` is added to the `supabase_realtime` publication so the client can
+      follow status changes
+    - The worker is invoked right after enqueueing and every minute by pg_cron. Both
+      need two Vault secrets, created once per project:
+        select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+        select vault.create_secret('<service-role-key>', 'service_role_key');
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+CREATE TABLE IF NOT EXISTS transcription_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid REFERENCES entries(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  options jsonb NOT NULL DEFAULT '{}',
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  run_after timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transcription_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own transcription jobs"
+  ON transcription_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_transcription_jobs_updated_at
+  BEFORE UPDATE ON transcription_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- At most one outstanding job per entry
+CREATE UNIQUE INDEX IF NOT EXISTS transcription_jobs_active_entry_idx
+  ON transcription_jobs(entry_id)
+  WHERE status IN ('pending', 'processing');
+
+CREATE INDEX IF NOT EXISTS transcription_jobs_due_idx
+  ON transcription_jobs(run_after)
+  WHERE status = 'pending';
+
+-- Ping the worker edge function; a no-op until the Vault secrets exist
+CREATE OR REPLACE FUNCTION invoke_transcription_worker()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  service_role_key text;
+BEGIN
+  SELECT decrypted_secret INTO project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/transcription-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enqueue_transcription(
+  p_entry_id uuid,
+  p_options jsonb DEFAULT '{}'
+)
+RETURNS transcription_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job transcription_jobs;
+BEGIN
+  UPDATE entries
+  SET transcription_status = 'processing', transcription_error = NULL
+  WHERE id = p_entry_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entry % not found', p_entry_id;
+  END IF;
+
+  INSERT INTO transcription_jobs (entry_id, user_id, options)
+  VALUES (p_entry_id, auth.uid(), p_options)
+  ON CONFLICT (entry_id) WHERE status IN ('pending', 'processing')
+  DO UPDATE SET options = EXCLUDED.options, last_error = NULL
+  RETURNING * INTO job;
+
+  PERFORM invoke_transcription_worker();
+
+  RETURN job;
+END;
+$$;
+
+-- Claim due jobs, including ones whose worker died mid-run
+CREATE OR REPLACE FUNCTION claim_transcription_jobs(batch_size integer DEFAULT 5)
+RETURNS SETOF transcription_jobs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE transcription_jobs
+  SET status = 'processing', attempts = attempts + 1, locked_at = now()
+  WHERE id IN (
+    SELECT id FROM transcription_jobs
+    WHERE (status = 'pending' AND run_after <= now())
+       OR (status = 'processing' AND locked_at < now() - interval '10 minutes')
+    ORDER BY run_after
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_transcription_worker() FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_transcription_jobs(integer) FROM public, anon, authenticated;
+
+-- Retry backed-off jobs even when nothing new is enqueued
+SELECT cron.schedule(
+  'transcription-worker',
+  '* * * * *',
+  $$SELECT invoke_transcription_worker()$$
+);
+
+-- Stream entry status changes to the client
+ALTER PUBLICATION supabase_realtime ADD TABLE entries;
@@ -0,0 +1,117 @@
+/*
+  # Full-text search across entries
+
+  1. Changes
+    - `entries.language` (text, nullable - ISO-639-3 code the entry was transcribed in)
+    - `entries.search_vector` (tsvector, generated from title and transcription using
+      the text search configuration matching the entry's language)
+    - GIN index on `search_vector`
+
+  2. Functions
+    - `entry_search_config(language)`: maps ISO-639-3 codes to Postgres text search
+      configurations, falling back to 'simple' (no stemming) for unsupported languages
+    - `search_entries(query, date_from, date_to, max_results)`: ranked matches with a
+      highlighted snippet. Runs as the caller, so RLS limits results to their entries
+
+  3. Important Notes
+    - Snippets mark matches with `[[` and `]]`; the client turns these into highlights
+*/
+
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS language text;
+
+CREATE OR REPLACE FUNCTION entry_search_config(language text)
+RETURNS regconfig
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT CASE language
+    WHEN 'eng' THEN 'english'
+    WHEN 'spa' THEN 'spanish'
+    WHEN 'fra' THEN 'french'
+    WHEN 'deu' THEN 'german'
+    WHEN 'ita' THEN 'italian'
+    WHEN 'por' THEN 'portuguese'
+    WHEN 'rus' THEN 'russian'
+    WHEN 'nld' THEN 'dutch'
+    WHEN 'swe' THEN 'swedish'
+    WHEN 'dan' THEN 'danish'
+    WHEN 'nor' THEN 'norwegian'
+    WHEN 'fin' THEN 'finnish'
+    WHEN 'tur' THEN 'turkish'
+    WHEN 'hun' THEN 'hungarian'
+    WHEN 'ron' THEN 'romanian'
+    WHEN 'ara' THEN 'arabic'
+    WHEN 'hin' THEN 'hindi'
+    ELSE 'simple'
+  END::regconfig;
+$$;
+
+ALTER TABLE entries
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector(entry_search_config(language), coalesce(title, '')), 'A') ||
+    setweight(to_tsvector(entry_search_config(language), coalesce(transcription, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS entries_search_vector_idx
+  ON entries USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION search_entries(
+  p_query text,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_max_results integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  original_audio_url text,
+  processed_audio_url text,
+  transcription text,
+  transcription_status text,
+  transcription_error text,
+  language text,
+  duration integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    e.id,
+    e.user_id,
+    e.title,
+    e.original_audio_url,
+    e.processed_audio_url,
+    e.transcription,
+    e.transcription_status,
+    e.transcription_error,
+    e.language,
+    e.duration,
+    e.created_at,
+    e.updated_at,
+    ts_rank(e.search_vector, q.query) AS rank,
+    ts_headline(
+      entry_search_config(e.language),
+      coalesce(e.transcription, e.title),
+      q.query,
+      'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM entries e
+  -- Parse the query with each entry's own configuration so stemming matches
+  CROSS JOIN LATERAL (
+    SELECT websearch_to_tsquery(entry_search_config(e.language), p_query) AS query
+  ) q
+  WHERE e.user_id = auth.uid()
+    AND e.search_vector @@ q.query
+    AND (p_date_from IS NULL OR e.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR e.created_at < p_date_to)
+  ORDER BY rank DESC, e.created_at DESC
+  LIMIT p_max_results;
+$$;
@@ -0,0 +1,20 @@
+/*
+  # Lightweight list projection and keyset pagination for entries
+
+  1. Changes
+    - `entries.transcription_preview` (text, generated - first 400 characters)
+    - `entries.transcription_length` (integer, generated - full transcript length)
+    - Composite index on (user_id, created_at DESC, id DESC) for keyset pagination
+
+  2. Important Notes
+    - The list loads previews only; full transcripts are fetched when expanded
+*/
+
+ALTER TABLE entries
+  ADD COLUMN IF NOT EXISTS transcription_preview text
+    GENERATED ALWAYS AS (left(transcription, 400)) STORED,
+  ADD COLUMN IF NOT EXISTS transcription_length integer
+    GENERATED ALWAYS AS (char_length(transcription)) STORED;
+
+CREATE INDEX IF NOT EXISTS entries_user_created_at_id_idx
+  ON entries(user_id, created_at DESC, id DESC);
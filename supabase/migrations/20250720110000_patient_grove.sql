@@ -0,0 +1,92 @@
+/*
+  # Editable entries with revision history
+
+  1. Changes
+    - `entries.title_source` (text, 'auto' | 'manual' - how the current title was produced)
+    - `entries.transcription_source` (text, 'asr' | 'manual' - how the current transcript
+      was produced)
+
+  2. New Tables
+    - `entry_revisions`
+      - `id` (uuid, primary key)
+      - `entry_id` (uuid, references entries)
+      - `user_id` (uuid, references auth.users)
+      - `field` (text, 'title' | 'transcription')
+      - `content` (text, nullable - the value of that version)
+      - `source` (text, 'auto' | 'manual' | 'asr')
+      - `created_by` (uuid, nullable - null when written by a background job)
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `entry_revisions`; users can read their own revisions
+    - Revisions are written by a trigger on `entries` only
+
+  4. Important Notes
+    - Every version of a title or transcript is recorded, including the current one,
+      so re-transcribing never destroys a hand-corrected transcript
+    - Existing titles and transcripts are recorded as their first revision
+*/
+
+ALTER TABLE entries
+  ADD COLUMN IF NOT EXISTS title_source text NOT NULL DEFAULT 'auto'
+    CHECK (title_source IN ('auto', 'manual')),
+  ADD COLUMN IF NOT EXISTS transcription_source text NOT NULL DEFAULT 'asr'
+    CHECK (transcription_source IN ('asr', 'manual'));
+
+CREATE TABLE IF NOT EXISTS entry_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid REFERENCES entries(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  field text NOT NULL CHECK (field IN ('title', 'transcription')),
+  content text,
+  source text NOT NULL CHECK (source IN ('auto', 'manual', 'asr')),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE entry_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own entry revisions"
+  ON entry_revisions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS entry_revisions_entry_id_idx
+  ON entry_revisions(entry_id, field, created_at DESC);
+
+CREATE OR REPLACE FUNCTION record_entry_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.title IS DISTINCT FROM OLD.title THEN
+    INSERT INTO entry_revisions (entry_id, user_id, field, content, source, created_by)
+    VALUES (NEW.id, NEW.user_id, 'title', NEW.title, NEW.title_source, auth.uid());
+  END IF;
+
+  IF NEW.transcription IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.transcription IS DISTINCT FROM OLD.transcription) THEN
+    INSERT INTO entry_revisions (entry_id, user_id, field, content, source, created_by)
+    VALUES (NEW.id, NEW.user_id, 'transcription', NEW.transcription, NEW.transcription_source, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_entry_revision_on_change
+  AFTER INSERT OR UPDATE OF title, transcription ON entries
+  FOR EACH ROW
+  EXECUTE FUNCTION record_entry_revision();
+
+-- Seed history with the current versions
+INSERT INTO entry_revisions (entry_id, user_id, field, content, source, created_at)
+SELECT id, user_id, 'title', title, 'auto', created_at FROM entries;
+
+INSERT INTO entry_revisions (entry_id, user_id, field, content, source, created_at)
+SELECT id, user_id, 'transcription', transcription, 'asr', updated_at
+FROM entries
+WHERE transcription IS NOT NULL;
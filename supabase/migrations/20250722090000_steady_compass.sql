@@ -0,0 +1,15 @@
+/*
+  # Word-level transcript timings
+
+  1. Changes
+    - `entries.transcript_segments` (jsonb, nullable - array of
+      `{ "text": string, "start": number, "end": number }` in seconds)
+
+  2. Important Notes
+    - Segments are single words when the provider reports word timing, and longer
+      phrases for providers that only report segment timing
+    - Segments describe the ASR transcript; editing the transcript by hand clears them
+*/
+
+ALTER TABLE entries
+  ADD COLUMN IF NOT EXISTS transcript_segments jsonb;
@@ -0,0 +1,17 @@
+/*
+  # Speaker diarization
+
+  1. Changes
+    - `entries.identify_speakers` (boolean, default false - transcribe with speaker
+      diarization; chosen per recording)
+    - `entries.speaker_names` (jsonb, default '{}' - display names keyed by the
+      provider's speaker id, e.g. `{ "speaker_0": "Alex" }`)
+
+  2. Important Notes
+    - Diarized transcripts carry a `speaker` id on each `transcript_segments` item
+    - Re-transcribing an entry keeps its diarization choice and speaker names
+*/
+
+ALTER TABLE entries
+  ADD COLUMN IF NOT EXISTS identify_speakers boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS speaker_names jsonb NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,201 @@
+/*
+  # Tags for organizing entries
+
+  1. New Tables
+    - `tags`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `name` (text, unique per user ignoring case)
+      - `created_at` (timestamp)
+    - `entry_tags` (join table between `entries` and `tags`)
+      - `entry_id` (uuid, references entries)
+      - `tag_id` (uuid, references tags)
+      - `user_id` (uuid, references auth.users)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on both tables with the same per-user policies as `entries`
+    - Entries can only be tagged with the owner's own tags
+
+  3. Functions
+    - `search_entries` gains tag and duration filters, returns the newer entry
+      columns and includes each match's tags
+
+  4. Important Notes
+    - Tag filters match entries carrying any of the selected tags
+*/
+
+CREATE TABLE IF NOT EXISTS tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS tags_user_id_name_idx
+  ON tags(user_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS entry_tags (
+  entry_id uuid REFERENCES entries(id) ON DELETE CASCADE NOT NULL,
+  tag_id uuid REFERENCES tags(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (entry_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS entry_tags_tag_id_idx ON entry_tags(tag_id);
+
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entry_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert their own tags"
+  ON tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their own tags"
+  ON tags
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+  ON tags
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+  ON tags
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can tag their own entries"
+  ON entry_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM entries e WHERE e.id = entry_id AND e.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can read their own entry tags"
+  ON entry_tags
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own entry tags"
+  ON entry_tags
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own entry tags"
+  ON entry_tags
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- The return type changes, so the old signature has to go first
+DROP FUNCTION IF EXISTS search_entries(text, timestamptz, timestamptz, integer);
+
+CREATE OR REPLACE FUNCTION search_entries(
+  p_query text,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_max_results integer DEFAULT 50,
+  p_tag_ids uuid[] DEFAULT NULL,
+  p_min_duration integer DEFAULT NULL,
+  p_max_duration integer DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  title_source text,
+  original_audio_url text,
+  processed_audio_url text,
+  transcription text,
+  transcription_source text,
+  transcript_segments jsonb,
+  transcription_status text,
+  transcription_error text,
+  identify_speakers boolean,
+  speaker_names jsonb,
+  language text,
+  duration integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  tags jsonb,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    e.id,
+    e.user_id,
+    e.title,
+    e.title_source,
+    e.original_audio_url,
+    e.processed_audio_url,
+    e.transcription,
+    e.transcription_source,
+    e.transcript_segments,
+    e.transcription_status,
+    e.transcription_error,
+    e.identify_speakers,
+    e.speaker_names,
+    e.language,
+    e.duration,
+    e.created_at,
+    e.updated_at,
+    (
+      SELECT coalesce(
+        jsonb_agg(
+          jsonb_build_object('id', t.id, 'user_id', t.user_id, 'name', t.name, 'created_at', t.created_at)
+          ORDER BY lower(t.name)
+        ),
+        '[]'::jsonb
+      )
+      FROM entry_tags et
+      JOIN tags t ON t.id = et.tag_id
+      WHERE et.entry_id = e.id
+    ) AS tags,
+    ts_rank(e.search_vector, q.query) AS rank,
+    ts_headline(
+      entry_search_config(e.language),
+      coalesce(e.transcription, e.title),
+      q.query,
+      'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM entries e
+  -- Parse the query with each entry's own configuration so stemming matches
+  CROSS JOIN LATERAL (
+    SELECT websearch_to_tsquery(entry_search_config(e.language), p_query) AS query
+  ) q
+  WHERE e.user_id = auth.uid()
+    AND e.search_vector @@ q.query
+    AND (p_date_from IS NULL OR e.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR e.created_at < p_date_to)
+    AND (p_min_duration IS NULL OR e.duration >= p_min_duration)
+    AND (p_max_duration IS NULL OR e.duration < p_max_duration)
+    AND (
+      p_tag_ids IS NULL
+      OR cardinality(p_tag_ids) = 0
+      OR EXISTS (
+        SELECT 1 FROM entry_tags et
+        WHERE et.entry_id = e.id AND et.tag_id = ANY (p_tag_ids)
+      )
+    )
+  ORDER BY rank DESC, e.created_at DESC
+  LIMIT p_max_results;
+$$;
@@ -0,0 +1,71 @@
+/*
+  # Entry insights
+
+  1. New Tables
+    - `entry_insights` (one row per entry)
+      - `entry_id` (uuid, primary key, references entries)
+      - `user_id` (uuid, references auth.users)
+      - `status` (text, 'processing' | 'completed' | 'failed')
+      - `tldr` (text, nullable - short summary)
+      - `decisions` (jsonb, array of strings)
+      - `action_items` (jsonb, array of strings)
+      - `open_questions` (jsonb, array of strings)
+      - `error` (text, nullable - last failure message)
+      - `model` (text, nullable - provider and model that produced the insights)
+      - `created_at` / `updated_at` (timestamps)
+
+  2. Security
+    - Enable RLS on `entry_insights`; users can read and write insights of their
+      own entries (the `generate-insights` function runs as the user)
+
+  3. Important Notes
+    - `transcription-worker` generates insights after each transcription
+    - `entry_insights` is added to the `supabase_realtime` publication so the
+      client can follow generation
+*/
+
+CREATE TABLE IF NOT EXISTS entry_insights (
+  entry_id uuid PRIMARY KEY REFERENCES entries(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'completed', 'failed')),
+  tldr text,
+  decisions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  action_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  open_questions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  error text,
+  model text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE entry_insights ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert insights for their own entries"
+  ON entry_insights
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM entries e WHERE e.id = entry_id AND e.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can read their own entry insights"
+  ON entry_insights
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own entry insights"
+  ON entry_insights
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_entry_insights_updated_at
+  BEFORE UPDATE ON entry_insights
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE entry_insights;
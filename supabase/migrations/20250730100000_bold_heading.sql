@@ -0,0 +1,28 @@
+/*
+  # Generated entry titles
+
+  1. Changes
+    - `entries.title_source` accepts 'generated' for titles written from the transcript
+      ('auto' remains the timestamp placeholder set when a recording is saved)
+    - `entry_revisions.source` accepts 'generated' as well
+
+  2. Important Notes
+    - `transcription-worker` generates a title after each transcription; the
+      update is conditional on `title_source <> 'manual'`, so a title the user
+      typed or restored always wins, even when edited mid-generation
+    - Entries recorded before this change keep their placeholder until the
+      `generate-titles` function back-fills them
+*/
+
+ALTER TABLE entries
+  DROP CONSTRAINT IF EXISTS entries_title_source_check,
+  ADD CONSTRAINT entries_title_source_check
+    CHECK (title_source IN ('auto', 'generated', 'manual'));
+
+ALTER TABLE entry_revisions
+  DROP CONSTRAINT IF EXISTS entry_revisions_source_check,
+  ADD CONSTRAINT entry_revisions_source_check
+    CHECK (source IN ('auto', 'generated', 'manual', 'asr'));
+
+CREATE INDEX IF NOT EXISTS entries_user_id_title_source_idx
+  ON entries(user_id, title_source);
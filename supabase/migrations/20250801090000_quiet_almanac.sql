@@ -0,0 +1,88 @@
+/*
+  # Digest reports
+
+  1. New Tables
+    - `digests` (one row per user and period)
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `period` (text, 'week' | 'month')
+      - `period_start` / `period_end` (timestamptz, end exclusive - the period in
+        the user's local time)
+      - `status` (text, 'processing' | 'completed' | 'failed')
+      - `entry_count` (integer)
+      - `total_duration` (integer, seconds recorded in the period)
+      - `summary` (text, nullable - narrative of the period)
+      - `themes` (jsonb, array of strings - recurring topics)
+      - `tag_counts` (jsonb, array of { name, count } - most used tags)
+      - `action_items` (jsonb, array of { entry_id, text } - from entry insights)
+      - `highlights` (jsonb, array of { entry_id, title, created_at, summary })
+      - `error` (text, nullable - last failure message)
+      - `model` (text, nullable - provider and model that wrote the summary)
+      - `created_at` / `updated_at` (timestamps)
+
+  2. Security
+    - Enable RLS on `digests`; users manage their own digests (the
+      `generate-digest` function runs as the user)
+
+  3. Important Notes
+    - Regenerating a period replaces its digest, so each period has one report
+    - Counts and durations are stored even when writing the summary fails
+*/
+
+CREATE TABLE IF NOT EXISTS digests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  period text NOT NULL CHECK (period IN ('week', 'month')),
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'completed', 'failed')),
+  entry_count integer NOT NULL DEFAULT 0,
+  total_duration integer NOT NULL DEFAULT 0,
+  summary text,
+  themes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  tag_counts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  action_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  highlights jsonb NOT NULL DEFAULT '[]'::jsonb,
+  error text,
+  model text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, period, period_start),
+  CHECK (period_end > period_start)
+);
+
+ALTER TABLE digests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert their own digests"
+  ON digests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their own digests"
+  ON digests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own digests"
+  ON digests
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own digests"
+  ON digests
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS digests_user_id_period_start_idx
+  ON digests(user_id, period_start DESC);
+
+CREATE TRIGGER update_digests_updated_at
+  BEFORE UPDATE ON digests
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,24 @@
+/*
+  # Accept imported audio formats
+
+  1. Changes
+    - `audio-recordings` bucket additionally allows `audio/mp4` (M4A), `audio/aac`
+      and `audio/flac`, so recordings from phones and other apps can be imported
+
+  2. Important Notes
+    - The client normalizes browser aliases (`audio/x-wav`, `audio/x-m4a`,
+      `audio/mp3`, ...) to these types before uploading
+*/
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'audio/webm',
+  'audio/wav',
+  'audio/mp3',
+  'audio/mpeg',
+  'audio/ogg',
+  'audio/mp4',
+  'audio/aac',
+  'audio/flac'
+]
+WHERE id = 'audio-recordings';
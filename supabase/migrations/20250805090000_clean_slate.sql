@@ -0,0 +1,50 @@
+/*
+  # Bulk deletion of a user's recordings
+
+  1. Functions
+    - `delete_user_entries()`: deletes every entry and digest of the calling user in
+      one transaction and returns the number of deleted entries. Revisions, insights,
+      tag links and transcription jobs go with their entries (ON DELETE CASCADE)
+
+  2. Removed
+    - The placeholder `cleanup_entry_files()` function and its
+      `cleanup_files_on_delete` trigger on `entries`
+
+  3. Security
+    - `delete_user_entries()` runs as the caller, so the existing RLS policies on
+      `entries` and `digests` apply; it is only executable by authenticated users
+
+  4. Important Notes
+    - Storage objects cannot be removed from SQL (Supabase rejects direct deletes
+      from `storage.objects`), which is why the trigger never did anything. Audio is
+      removed through the Storage API by the `delete-user-data` edge function, which
+      calls `delete_user_entries()` first and then empties the user's
+      `audio-recordings/{user_id}/` folder. Tags are kept so they can be reused
+*/
+
+DROP TRIGGER IF EXISTS cleanup_files_on_delete ON entries;
+DROP FUNCTION IF EXISTS cleanup_entry_files();
+
+CREATE OR REPLACE FUNCTION delete_user_entries()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM digests WHERE user_id = auth.uid();
+  DELETE FROM entries WHERE user_id = auth.uid();
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+
+  RETURN deleted_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION delete_user_entries() FROM public, anon;
+GRANT EXECUTE ON FUNCTION delete_user_entries() TO authenticated;
@@ -0,0 +1,288 @@
+/*
+  # Consistent audio deletion and storage reconciliation
+
+  1. New Tables
+    - `storage_deletions`: audio files waiting to be removed from `audio-recordings`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid - owner of the file, not a foreign key so it outlives the account)
+      - `path` (text, unique - object name in the bucket)
+      - `attempts` (integer)
+      - `run_after` (timestamp - next attempt, pushed back exponentially on failure)
+      - `last_error` (text, nullable)
+      - `created_at` (timestamp)
+    - `storage_issues`: findings of the last reconciliation
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `issue` (text, 'orphaned_file' | 'missing_file')
+      - `path` (text - object name in the bucket)
+      - `entry_id` (uuid, nullable - the entry pointing at a missing file)
+      - `size` (bigint, nullable - size of an orphaned file in bytes)
+      - `detected_at` (timestamp)
+
+  2. Functions
+    - `queue_entry_audio_deletion()`: trigger queueing an entry's audio when the entry
+      is deleted, in the same transaction as the delete
+    - `invoke_storage_cleanup()`: pings the `storage-cleanup` edge function
+    - `claim_storage_deletions(batch_size)`: called by the worker, atomically claims due files
+    - `reconcile_audio_storage()`: finds files without an entry and entries whose file is
+      gone, and replaces the caller's (or, for the service role, everyone's) issues
+    - `repair_audio_storage()`: queues the caller's orphaned files for removal and
+      detaches missing files from their entries
+
+  3. Security
+    - Enable RLS on both tables; users can read their own rows
+    - Rows are only written through the functions above
+
+  4. Important Notes
+    - Deleting an entry row is now the single deletion operation: the bucket object
+      is removed by the worker afterwards and retried until it succeeds, so rows and
+      objects no longer drift apart when a storage call fails
+    - Files are uploaded before their entry is saved, so only files older than a day
+      count as orphaned
+    - Uses the same Vault secrets as the transcription worker. pg_cron retries
+      deletions every five minutes and reconciles every night
+*/
+
+CREATE TABLE IF NOT EXISTS storage_deletions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  path text NOT NULL UNIQUE,
+  attempts integer NOT NULL DEFAULT 0,
+  run_after timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS storage_issues (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  issue text NOT NULL CHECK (issue IN ('orphaned_file', 'missing_file')),
+  path text NOT NULL,
+  entry_id uuid REFERENCES entries(id) ON DELETE CASCADE,
+  size bigint,
+  detected_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE storage_deletions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE storage_issues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own storage deletions"
+  ON storage_deletions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their own storage issues"
+  ON storage_issues
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS storage_deletions_run_after_idx
+  ON storage_deletions(run_after);
+
+CREATE INDEX IF NOT EXISTS storage_issues_user_id_idx
+  ON storage_issues(user_id);
+
+-- Reconciliation looks up entries by their audio paths
+CREATE INDEX IF NOT EXISTS entries_original_audio_url_idx
+  ON entries(original_audio_url);
+
+CREATE INDEX IF NOT EXISTS entries_processed_audio_url_idx
+  ON entries(processed_audio_url);
+
+-- Ping the cleanup edge function; a no-op until the Vault secrets exist
+CREATE OR REPLACE FUNCTION invoke_storage_cleanup()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text;
+  service_role_key text;
+BEGIN
+  SELECT decrypted_secret INTO project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/storage-cleanup',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_entry_audio_deletion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO storage_deletions (user_id, path)
+  SELECT DISTINCT OLD.user_id, audio_path
+  FROM unnest(ARRAY[OLD.original_audio_url, OLD.processed_audio_url]) AS audio_path
+  WHERE audio_path IS NOT NULL
+  ON CONFLICT (path) DO NOTHING;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION invoke_storage_cleanup_after_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM invoke_storage_cleanup();
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_audio_deletion_on_delete ON entries;
+CREATE TRIGGER queue_audio_deletion_on_delete
+  AFTER DELETE ON entries
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_entry_audio_deletion();
+
+-- Once per statement, so deleting many entries sends a single request
+DROP TRIGGER IF EXISTS invoke_storage_cleanup_on_delete ON entries;
+CREATE TRIGGER invoke_storage_cleanup_on_delete
+  AFTER DELETE ON entries
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION invoke_storage_cleanup_after_delete();
+
+-- Claimed files are hidden for ten minutes in case the worker dies mid-run
+CREATE OR REPLACE FUNCTION claim_storage_deletions(batch_size integer DEFAULT 100)
+RETURNS SETOF storage_deletions
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE storage_deletions
+  SET attempts = attempts + 1, run_after = now() + interval '10 minutes'
+  WHERE id IN (
+    SELECT id FROM storage_deletions
+    WHERE run_after <= now()
+    ORDER BY run_after
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+CREATE OR REPLACE FUNCTION reconcile_audio_storage()
+RETURNS SETOF storage_issues
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- NULL when called by pg_cron or the service role: reconcile every user
+  scope_user uuid := auth.uid();
+BEGIN
+  DELETE FROM storage_issues
+  WHERE scope_user IS NULL OR user_id = scope_user;
+
+  INSERT INTO storage_issues (user_id, issue, path, size)
+  SELECT
+    split_part(o.name, '/', 1)::uuid,
+    'orphaned_file',
+    o.name,
+    (o.metadata->>'size')::bigint
+  FROM storage.objects o
+  WHERE o.bucket_id = 'audio-recordings'
+    AND split_part(o.name, '/', 1) ~ '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+    AND (scope_user IS NULL OR split_part(o.name, '/', 1) = scope_user::text)
+    AND o.created_at < now() - interval '1 day'
+    AND NOT EXISTS (SELECT 1 FROM entries e WHERE e.original_audio_url = o.name)
+    AND NOT EXISTS (SELECT 1 FROM entries e WHERE e.processed_audio_url = o.name)
+    AND NOT EXISTS (SELECT 1 FROM storage_deletions d WHERE d.path = o.name)
+    AND EXISTS (
+      SELECT 1 FROM auth.users u
+      WHERE u.id::text = split_part(o.name, '/', 1)
+    );
+
+  INSERT INTO storage_issues (user_id, issue, path, entry_id)
+  SELECT e.user_id, 'missing_file', e.original_audio_url, e.id
+  FROM entries e
+  WHERE e.original_audio_url IS NOT NULL
+    AND (scope_user IS NULL OR e.user_id = scope_user)
+    AND NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'audio-recordings' AND o.name = e.original_audio_url
+    );
+
+  RETURN QUERY
+  SELECT * FROM storage_issues
+  WHERE scope_user IS NULL OR user_id = scope_user
+  ORDER BY detected_at, path;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION repair_audio_storage()
+RETURNS TABLE (queued_files integer, detached_entries integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO storage_deletions (user_id, path)
+  SELECT user_id, path FROM storage_issues
+  WHERE user_id = auth.uid() AND issue = 'orphaned_file'
+  ON CONFLICT (path) DO NOTHING;
+  GET DIAGNOSTICS queued_files = ROW_COUNT;
+
+  -- The transcript stays; the entry just no longer offers playback
+  UPDATE entries e
+  SET original_audio_url = NULL, processed_audio_url = NULL
+  FROM storage_issues i
+  WHERE i.user_id = auth.uid()
+    AND i.issue = 'missing_file'
+    AND e.id = i.entry_id
+    AND e.user_id = auth.uid();
+  GET DIAGNOSTICS detached_entries = ROW_COUNT;
+
+  DELETE FROM storage_issues WHERE user_id = auth.uid();
+
+  IF queued_files > 0 THEN
+    PERFORM invoke_storage_cleanup();
+  END IF;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_storage_cleanup() FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_storage_deletions(integer) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_audio_storage() FROM public, anon;
+REVOKE EXECUTE ON FUNCTION repair_audio_storage() FROM public, anon;
+
+-- Retry failed removals even when nothing new is deleted
+SELECT cron.schedule(
+  'storage-cleanup',
+  '*/5 * * * *',
+  $$SELECT invoke_storage_cleanup()$$
+);
+
+SELECT cron.schedule(
+  'storage-reconciliation',
+  '30 3 * * *',
+  $$SELECT reconcile_audio_storage()$$
+);
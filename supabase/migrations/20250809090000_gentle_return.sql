@@ -0,0 +1,162 @@
+/*
+  # Trash for deleted entries
+
+  1. Changes
+    - `entries.deleted_at` (timestamp, nullable): set when an entry is moved to the
+      trash; NULL for live entries
+    - `search_entries` skips trashed entries
+
+  2. Functions
+    - `trash_retention_days()`: days trashed entries are kept, from the
+      `app.trash_retention_days` database setting (default 30)
+    - `purge_trashed_entries()`: permanently deletes entries trashed longer than the
+      retention period; returns the number of deleted entries
+
+  3. Security
+    - Trashed entries stay under the existing RLS policies; restoring is an update
+      of `deleted_at`
+    - `purge_trashed_entries()` is only executable by the service role and pg_cron
+
+  4. Important Notes
+    - Purged entries are deleted like any other entry, so their audio is queued in
+      `storage_deletions` and removed by the `storage-cleanup` worker
+    - Change the retention period with:
+        alter database postgres set app.trash_retention_days = '14';
+    - pg_cron purges every night
+*/
+
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS entries_user_id_deleted_at_idx
+  ON entries(user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- Unchanged apart from skipping trashed entries
+CREATE OR REPLACE FUNCTION search_entries(
+  p_query text,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_max_results integer DEFAULT 50,
+  p_tag_ids uuid[] DEFAULT NULL,
+  p_min_duration integer DEFAULT NULL,
+  p_max_duration integer DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  title_source text,
+  original_audio_url text,
+  processed_audio_url text,
+  transcription text,
+  transcription_source text,
+  transcript_segments jsonb,
+  transcription_status text,
+  transcription_error text,
+  identify_speakers boolean,
+  speaker_names jsonb,
+  language text,
+  duration integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  tags jsonb,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    e.id,
+    e.user_id,
+    e.title,
+    e.title_source,
+    e.original_audio_url,
+    e.processed_audio_url,
+    e.transcription,
+    e.transcription_source,
+    e.transcript_segments,
+    e.transcription_status,
+    e.transcription_error,
+    e.identify_speakers,
+    e.speaker_names,
+    e.language,
+    e.duration,
+    e.created_at,
+    e.updated_at,
+    (
+      SELECT coalesce(
+        jsonb_agg(
+          jsonb_build_object('id', t.id, 'user_id', t.user_id, 'name', t.name, 'created_at', t.created_at)
+          ORDER BY lower(t.name)
+        ),
+        '[]'::jsonb
+      )
+      FROM entry_tags et
+      JOIN tags t ON t.id = et.tag_id
+      WHERE et.entry_id = e.id
+    ) AS tags,
+    ts_rank(e.search_vector, q.query) AS rank,
+    ts_headline(
+      entry_search_config(e.language),
+      coalesce(e.transcription, e.title),
+      q.query,
+      'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM entries e
+  -- Parse the query with each entry's own configuration so stemming matches
+  CROSS JOIN LATERAL (
+    SELECT websearch_to_tsquery(entry_search_config(e.language), p_query) AS query
+  ) q
+  WHERE e.user_id = auth.uid()
+    AND e.deleted_at IS NULL
+    AND e.search_vector @@ q.query
+    AND (p_date_from IS NULL OR e.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR e.created_at < p_date_to)
+    AND (p_min_duration IS NULL OR e.duration >= p_min_duration)
+    AND (p_max_duration IS NULL OR e.duration < p_max_duration)
+    AND (
+      p_tag_ids IS NULL
+      OR cardinality(p_tag_ids) = 0
+      OR EXISTS (
+        SELECT 1 FROM entry_tags et
+        WHERE et.entry_id = e.id AND et.tag_id = ANY (p_tag_ids)
+      )
+    )
+  ORDER BY rank DESC, e.created_at DESC
+  LIMIT p_max_results;
+$$;
+
+CREATE OR REPLACE FUNCTION trash_retention_days()
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(nullif(current_setting('app.trash_retention_days', true), '')::integer, 30);
+$$;
+
+CREATE OR REPLACE FUNCTION purge_trashed_entries()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged_count integer;
+BEGIN
+  DELETE FROM entries
+  WHERE deleted_at < now() - make_interval(days => trash_retention_days());
+  GET DIAGNOSTICS purged_count = ROW_COUNT;
+
+  RETURN purged_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_trashed_entries() FROM public, anon, authenticated;
+
+SELECT cron.schedule(
+  'purge-trashed-entries',
+  '0 4 * * *',
+  $$SELECT purge_trashed_entries()$$
+);
@@ -0,0 +1,57 @@
+/*
+  # Synced user settings
+
+  1. New Tables
+    - `user_settings`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `settings` (jsonb - language, recording and notification preferences)
+      - `schema_version` (integer - version of the app's settings schema that wrote
+        `settings`; older versions are migrated by the client when read)
+      - `created_at` / `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `user_settings`
+    - Users can read, create and update their own settings
+
+  3. Important Notes
+    - `user_settings` is added to the `supabase_realtime` publication so other
+      devices pick up changes immediately
+    - Settings previously kept only in the browser are uploaded by the client the
+      first time a user signs in on that device
+*/
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  settings jsonb NOT NULL DEFAULT '{}',
+  schema_version integer NOT NULL DEFAULT 1,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can insert their own settings"
+  ON user_settings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their own settings"
+  ON user_settings
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+  ON user_settings
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_settings_updated_at
+  BEFORE UPDATE ON user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE user_settings;
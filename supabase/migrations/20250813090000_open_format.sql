@@ -0,0 +1,34 @@
+/*
+  # Record the audio format of each entry
+
+  1. Changes
+    - `entries.audio_mime_type` (text, nullable) - MIME type of the stored
+      recording (`audio/webm`, `audio/ogg`, `audio/mp4`, ...)
+    - Existing entries are backfilled from the content type their audio file was
+      uploaded with
+
+  2. Important Notes
+    - Browsers record in different containers: Chrome and Firefox in WebM or Ogg
+      with Opus, Safari and iOS in MP4 with AAC. The client picks the best one the
+      browser supports and players use this column to tell whether they can
+      play a recording
+    - The `audio-recordings` bucket is updated to allow all three recording
+      formats; `audio/mp4` was first added for imported files
+*/
+
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS audio_mime_type text;
+
+UPDATE entries e
+SET audio_mime_type = o.metadata->>'mimetype'
+FROM storage.objects o
+WHERE o.bucket_id = 'audio-recordings'
+  AND o.name = e.original_audio_url
+  AND e.audio_mime_type IS NULL;
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY(
+  SELECT DISTINCT unnest(
+    allowed_mime_types || ARRAY['audio/webm', 'audio/ogg', 'audio/mp4']
+  )
+)
+WHERE id = 'audio-recordings';
@@ -0,0 +1,14 @@
+/*
+  # Waveform peaks for entries
+
+  1. Changes
+    - `entries.waveform_peaks` (jsonb, nullable) - array of peak levels from 0
+      to 1 across the recording, drawn as the entry's waveform
+
+  2. Important Notes
+    - Peaks are computed by the client when a recording is saved, so lists draw
+      waveforms without downloading or decoding audio
+    - Older entries get their peaks the first time their recording is played
+*/
+
+ALTER TABLE entries ADD COLUMN IF NOT EXISTS waveform_peaks jsonb;
@@ -0,0 +1,129 @@
+/*
+  # Let entry search use the full-text index
+
+  1. Functions
+    - `entry_search_configs()`: every text search configuration
+      `entry_search_config` can return
+    - `search_entries` parses the search query once per configuration instead of
+      once per entry. Results are unchanged
+
+  2. Important Notes
+    - Building the query from each row's language made the match condition depend
+      on the row, so the GIN index on `search_vector` could not be used and every
+      search scanned all of the user's entries
+    - Keep `entry_search_configs()` in sync with `entry_search_config()`: entries
+      in a configuration missing from the list are not found
+*/
+
+CREATE OR REPLACE FUNCTION entry_search_configs()
+RETURNS regconfig[]
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT ARRAY[
+    'english', 'spanish', 'french', 'german', 'italian', 'portuguese',
+    'russian', 'dutch', 'swedish', 'danish', 'norwegian', 'finnish',
+    'turkish', 'hungarian', 'romanian', 'arabic', 'hindi', 'simple'
+  ]::regconfig[];
+$$;
+
+-- Unchanged apart from how the query is parsed and matched
+CREATE OR REPLACE FUNCTION search_entries(
+  p_query text,
+  p_date_from timestamptz DEFAULT NULL,
+  p_date_to timestamptz DEFAULT NULL,
+  p_max_results integer DEFAULT 50,
+  p_tag_ids uuid[] DEFAULT NULL,
+  p_min_duration integer DEFAULT NULL,
+  p_max_duration integer DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  title text,
+  title_source text,
+  original_audio_url text,
+  processed_audio_url text,
+  transcription text,
+  transcription_source text,
+  transcript_segments jsonb,
+  transcription_status text,
+  transcription_error text,
+  identify_speakers boolean,
+  speaker_names jsonb,
+  language text,
+  duration integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  tags jsonb,
+  rank real,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    e.id,
+    e.user_id,
+    e.title,
+    e.title_source,
+    e.original_audio_url,
+    e.processed_audio_url,
+    e.transcription,
+    e.transcription_source,
+    e.transcript_segments,
+    e.transcription_status,
+    e.transcription_error,
+    e.identify_speakers,
+    e.speaker_names,
+    e.language,
+    e.duration,
+    e.created_at,
+    e.updated_at,
+    (
+      SELECT coalesce(
+        jsonb_agg(
+          jsonb_build_object('id', t.id, 'user_id', t.user_id, 'name', t.name, 'created_at', t.created_at)
+          ORDER BY lower(t.name)
+        ),
+        '[]'::jsonb
+      )
+      FROM entry_tags et
+      JOIN tags t ON t.id = et.tag_id
+      WHERE et.entry_id = e.id
+    ) AS tags,
+    ts_rank(e.search_vector, q.query) AS rank,
+    ts_headline(
+      q.config,
+      coalesce(e.transcription, e.title),
+      q.query,
+      'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet
+  -- One query per configuration, so matching by the entry's own configuration
+  -- keeps stemming right and can still use the GIN index
+  FROM (
+    SELECT c.config, websearch_to_tsquery(c.config, p_query) AS query
+    FROM unnest(entry_search_configs()) AS c(config)
+  ) q
+  JOIN entries e
+    ON e.search_vector @@ q.query
+   AND entry_search_config(e.language) = q.config
+  WHERE e.user_id = auth.uid()
+    AND e.deleted_at IS NULL
+    AND (p_date_from IS NULL OR e.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR e.created_at < p_date_to)
+    AND (p_min_duration IS NULL OR e.duration >= p_min_duration)
+    AND (p_max_duration IS NULL OR e.duration < p_max_duration)
+    AND (
+      p_tag_ids IS NULL
+      OR cardinality(p_tag_ids) = 0
+      OR EXISTS (
+        SELECT 1 FROM entry_tags et
+        WHERE et.entry_id = e.id AND et.tag_id = ANY (p_tag_ids)
+      )
+    )
+  ORDER BY rank DESC, e.created_at DESC
+  LIMIT p_max_results;
+$$;
@@ -0,0 +1,44 @@
+/*
+  # Clear placeholder transcripts left by the old client
+
+  1. Data Fix
+    - Entries whose transcription is placeholder text the old client saved when it
+      had no ElevenLabs key ("Transcription generated on … - Duration: …KB",
+      "Placeholder transcription generated on …") are moved to the 'failed' state
+      and their transcript and word timings cleared, so they can be transcribed again
+    - Titles generated from that text go back to the timestamp placeholder
+    - Insights generated from that text and the placeholder revisions are removed
+
+  2. Important Notes
+    - Databases that already ran `20250712093000_amber_meadow` marked these
+      entries 'completed', so they were searchable, titled and summarized
+*/
+
+DELETE FROM entry_insights
+WHERE entry_id IN (
+  SELECT id FROM entries
+  WHERE (transcription LIKE 'Transcription generated on % - Duration: %KB'
+    OR transcription LIKE 'Placeholder transcription generated on % - Duration: %KB')
+);
+
+-- Only the placeholder versions; a transcript typed over one is kept
+DELETE FROM entry_revisions
+WHERE field = 'transcription'
+  AND (content LIKE 'Transcription generated on % - Duration: %KB'
+    OR content LIKE 'Placeholder transcription generated on % - Duration: %KB');
+
+UPDATE entries
+SET
+  transcription_status = 'failed',
+  transcription_error = 'No transcript was saved for this recording. Please retry.',
+  transcription = NULL,
+  transcript_segments = NULL,
+  title = CASE
+    WHEN title_source = 'generated'
+      THEN 'Founder Log - ' || to_char(created_at, 'FMMM/FMDD/YYYY HH24:MI')
+    ELSE title
+  END,
+  title_source = CASE WHEN title_source = 'generated' THEN 'auto' ELSE title_source END,
+  updated_at = now()
+WHERE (transcription LIKE 'Transcription generated on % - Duration: %KB'
+    OR transcription LIKE 'Placeholder transcription generated on % - Duration: %KB');
@@ -0,0 +1,57 @@
+/*
+  # Stop reclaiming transcription jobs that keep crashing the worker
+
+  1. Functions
+    - `claim_transcription_jobs` only reclaims a stale 'processing' job while it
+      has attempts left
+    - Stale jobs without attempts left are marked 'failed', and so is their
+      entry, so the client shows the failure and offers a retry
+
+  2. Important Notes
+    - A worker that dies mid-job never records the failure itself. Before this
+      change such a job was reclaimed every 10 minutes forever, because the
+      attempt limit was only checked by the worker after a job failed cleanly
+*/
+
+CREATE OR REPLACE FUNCTION claim_transcription_jobs(batch_size integer DEFAULT 5)
+RETURNS SETOF transcription_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH exhausted AS (
+    UPDATE transcription_jobs
+    SET
+      status = 'failed',
+      locked_at = NULL,
+      last_error = 'Transcription stopped before finishing. Please retry.'
+    WHERE status = 'processing'
+      AND locked_at < now() - interval '10 minutes'
+      AND attempts >= max_attempts
+    RETURNING entry_id, last_error
+  )
+  UPDATE entries e
+  SET transcription_status = 'failed', transcription_error = x.last_error
+  FROM exhausted x
+  WHERE e.id = x.entry_id
+    AND e.transcription_status = 'processing';
+
+  RETURN QUERY
+  UPDATE transcription_jobs
+  SET status = 'processing', attempts = attempts + 1, locked_at = now()
+  WHERE id IN (
+    SELECT id FROM transcription_jobs
+    WHERE (status = 'pending' AND run_after <= now())
+       OR (
+         status = 'processing'
+         AND locked_at < now() - interval '10 minutes'
+         AND attempts < max_attempts
+       )
+    ORDER BY run_after
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,56 @@
+/*
+  # Keep word timings with transcript revisions
+
+  1. Changes
+    - `entry_revisions.transcript_segments` (jsonb, nullable - word timings of
+      an ASR transcript version)
+
+  2. Functions
+    - `record_entry_revision` stores the entry's word timings with each
+      transcript version
+
+  3. Important Notes
+    - Restoring the original machine transcript restores its word timings, so the
+      synchronized transcript keeps working after an edit is undone
+    - Existing revisions that match an entry's current ASR transcript get its
+      word timings; older machine transcripts were stored without them
+*/
+
+ALTER TABLE entry_revisions
+  ADD COLUMN IF NOT EXISTS transcript_segments jsonb;
+
+CREATE OR REPLACE FUNCTION record_entry_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.title IS DISTINCT FROM OLD.title THEN
+    INSERT INTO entry_revisions (entry_id, user_id, field, content, source, created_by)
+    VALUES (NEW.id, NEW.user_id, 'title', NEW.title, NEW.title_source, auth.uid());
+  END IF;
+
+  IF NEW.transcription IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.transcription IS DISTINCT FROM OLD.transcription) THEN
+    INSERT INTO entry_revisions (
+      entry_id, user_id, field, content, source, transcript_segments, created_by
+    )
+    VALUES (
+      NEW.id, NEW.user_id, 'transcription', NEW.transcription,
+      NEW.transcription_source, NEW.transcript_segments, auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+UPDATE entry_revisions r
+SET transcript_segments = e.transcript_segments
+FROM entries e
+WHERE r.entry_id = e.id
+  AND r.field = 'transcription'
+  AND r.source = 'asr'
+  AND r.content = e.transcription
+  AND e.transcript_segments IS NOT NULL;